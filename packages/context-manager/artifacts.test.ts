@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { mkdtemp, rm, readdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+    createArtifactId,
+    createInMemoryArtifactStore,
+    createFileArtifactStore,
+    formatArtifactReference,
+    extractArtifactReferences,
+} from './artifacts.js';
+
+describe('artifacts', () => {
+    describe('createArtifactId', () => {
+        it('should return the same id for the same content', () => {
+            expect(createArtifactId('hello')).toBe(createArtifactId('hello'));
+        });
+
+        it('should return different ids for different content', () => {
+            expect(createArtifactId('hello')).not.toBe(createArtifactId('world'));
+        });
+    });
+
+    describe('artifact references', () => {
+        it('should extract ids from formatted references', () => {
+            const text = `See ${formatArtifactReference('artifact_abc')} and ${formatArtifactReference('artifact_def')}`;
+            expect(extractArtifactReferences(text)).toEqual(['artifact_abc', 'artifact_def']);
+        });
+
+        it('should return an empty array when there are no references', () => {
+            expect(extractArtifactReferences('nothing here')).toEqual([]);
+        });
+    });
+
+    describe('createInMemoryArtifactStore', () => {
+        it('should store and fetch content by id', async () => {
+            const store = createInMemoryArtifactStore();
+            const id = await store.put('large output', { toolName: 'readFile' });
+            const artifact = await store.get(id);
+            expect(artifact?.content).toBe('large output');
+            expect(artifact?.metadata).toEqual({ toolName: 'readFile' });
+            expect(artifact?.createdAt).toBeInstanceOf(Date);
+        });
+
+        it('should return undefined for unknown ids', async () => {
+            const store = createInMemoryArtifactStore();
+            expect(await store.get('artifact_missing')).toBeUndefined();
+        });
+    });
+
+    describe('createFileArtifactStore', () => {
+        let directory: string | undefined;
+
+        afterEach(async () => {
+            if (directory) {
+                await rm(directory, { recursive: true, force: true });
+                directory = undefined;
+            }
+        });
+
+        it('should persist artifacts as files and read them back', async () => {
+            directory = await mkdtemp(join(tmpdir(), 'contextor-artifacts-'));
+            const store = createFileArtifactStore({ directory: join(directory, 'nested') });
+            const id = await store.put('file content', { kind: 'result' });
+
+            expect(await readdir(join(directory, 'nested'))).toEqual([`${id}.json`]);
+
+            const artifact = await createFileArtifactStore({
+                directory: join(directory, 'nested'),
+            }).get(id);
+            expect(artifact?.content).toBe('file content');
+            expect(artifact?.metadata).toEqual({ kind: 'result' });
+            expect(artifact?.createdAt).toBeInstanceOf(Date);
+        });
+
+        it('should return undefined for missing or unsafe ids', async () => {
+            directory = await mkdtemp(join(tmpdir(), 'contextor-artifacts-'));
+            const store = createFileArtifactStore({ directory });
+            expect(await store.get('artifact_missing')).toBeUndefined();
+            expect(await store.get('../etc/passwd')).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,111 @@
+/**
+ * Artifact stores for content moved out of the context window
+ *
+ * Built-in strategies (e.g., the tool-output compactor) write large payloads here
+ * and leave a short reference stub in the message history instead.
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/**
+ * A stored payload that was moved out of context
+ */
+export interface Artifact {
+    id: string;
+    content: string;
+    metadata?: Record<string, unknown>;
+    createdAt: Date;
+}
+
+/**
+ * Storage backend for offloaded content
+ * Implement this to persist artifacts in S3, a database, etc.
+ */
+export interface ArtifactStore {
+    /**
+     * Store content and return its reference id
+     * Storing identical content twice should return the same id
+     */
+    put: (content: string, metadata?: Record<string, unknown>) => Promise<string>;
+
+    /**
+     * Fetch a stored artifact, or undefined if the id is unknown
+     */
+    get: (id: string) => Promise<Artifact | undefined>;
+}
+
+/**
+ * Derive a stable artifact id from content
+ */
+export function createArtifactId(content: string): string {
+    return `artifact_${createHash('sha256').update(content).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Format the reference marker left in context for a stored artifact
+ * Agents pass the id back to the recall tool to fetch the original content
+ */
+export function formatArtifactReference(id: string): string {
+    return `ref: ${id}`;
+}
+
+/**
+ * Extract all artifact ids referenced in a piece of text
+ */
+export function extractArtifactReferences(text: string): string[] {
+    return [...text.matchAll(/ref: (artifact_[\w-]+)/g)].map(match => match[1]);
+}
+
+/**
+ * Create an artifact store that keeps everything in process memory
+ * Good for tests and short-lived agents
+ */
+export function createInMemoryArtifactStore(): ArtifactStore {
+    const artifacts = new Map<string, Artifact>();
+
+    return {
+        put: async (content, metadata) => {
+            const id = createArtifactId(content);
+            if (!artifacts.has(id)) {
+                artifacts.set(id, { id, content, metadata, createdAt: new Date() });
+            }
+            return id;
+        },
+        get: async id => artifacts.get(id),
+    };
+}
+
+/**
+ * Create an artifact store that writes one JSON file per artifact to a local directory
+ */
+export function createFileArtifactStore(options: { directory: string }): ArtifactStore {
+    const { directory } = options;
+    const pathFor = (id: string) => join(directory, `${id}.json`);
+
+    return {
+        put: async (content, metadata) => {
+            const id = createArtifactId(content);
+            const artifact: Artifact = { id, content, metadata, createdAt: new Date() };
+            await mkdir(directory, { recursive: true });
+            await writeFile(pathFor(id), JSON.stringify(artifact), 'utf-8');
+            return id;
+        },
+        get: async id => {
+            // Ids are generated by createArtifactId - reject anything that could escape the directory
+            if (!/^[\w-]+$/.test(id)) {
+                return undefined;
+            }
+            try {
+                const raw = JSON.parse(await readFile(pathFor(id), 'utf-8')) as Artifact;
+                return { ...raw, createdAt: new Date(raw.createdAt) };
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                    return undefined;
+                }
+                throw error;
+            }
+        },
+    };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { createCachedTokenCounter } from './caching.js';
+import { stringToContentV2, estimateTokensDefault } from './utils.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+describe('createCachedTokenCounter', () => {
+    const createMessage = (id: string, content: string): MastraDBMessage => ({
+        id,
+        role: 'user',
+        content: stringToContentV2(content),
+        createdAt: new Date(),
+    });
+
+    it('should return the same total as the wrapped counter', async () => {
+        const counter = createCachedTokenCounter(estimateTokensDefault);
+        const messages = [createMessage('1', 'Hello world'), createMessage('2', 'Goodbye')];
+        expect(await counter(messages)).toBeCloseTo(estimateTokensDefault(messages));
+    });
+
+    it('should only count new messages on later calls', async () => {
+        const inner = mock((messages: MastraDBMessage[]) => messages.length * 10);
+        const counter = createCachedTokenCounter(inner);
+        const messages = [createMessage('1', 'a'), createMessage('2', 'b')];
+
+        await counter(messages);
+        const total = await counter([...messages, createMessage('3', 'c')]);
+
+        expect(total).toBe(30);
+        expect(inner).toHaveBeenCalledTimes(3);
+        expect(counter.getStats()).toEqual({ hits: 2, misses: 3, size: 3 });
+    });
+
+    it('should re-count messages whose content changed', async () => {
+        const inner = mock(estimateTokensDefault);
+        const counter = createCachedTokenCounter(inner);
+
+        await counter([createMessage('1', 'short')]);
+        const total = await counter([createMessage('1', 'a much longer message')]);
+
+        expect(total).toBeCloseTo(21 / 4);
+        expect(counter.getStats()).toMatchObject({ hits: 0, misses: 2, size: 1 });
+    });
+
+    it('should cache counts separately per model', async () => {
+        const inner = mock((_messages: MastraDBMessage[], model?: string) =>
+            model === 'big' ? 100 : 1
+        );
+        const counter = createCachedTokenCounter(inner);
+        const messages = [createMessage('1', 'a')];
+
+        expect(await counter(messages, 'big')).toBe(100);
+        expect(await counter(messages, 'small')).toBe(1);
+        expect(await counter(messages, 'big')).toBe(100);
+        expect(counter.getStats()).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it('should evict the least recently used entries', async () => {
+        const counter = createCachedTokenCounter(() => 1, { maxEntries: 2 });
+
+        await counter([createMessage('1', 'a'), createMessage('2', 'b')]);
+        await counter([createMessage('1', 'a')]); // Touch 1 so 2 is the oldest
+        await counter([createMessage('3', 'c')]);
+        await counter([createMessage('1', 'a'), createMessage('2', 'b')]);
+
+        expect(counter.getStats()).toEqual({ hits: 2, misses: 4, size: 2 });
+    });
+
+    it('should reset cache and stats on clear', async () => {
+        const counter = createCachedTokenCounter(() => 1);
+        await counter([createMessage('1', 'a')]);
+        counter.clear();
+        expect(counter.getStats()).toEqual({ hits: 0, misses: 0, size: 0 });
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Incremental token counting
+ *
+ * processInputStep counts the whole context on every step. Wrapping the token counter with
+ * createCachedTokenCounter() memoizes per-message counts by message id plus a content hash,
+ * so each step only tokenizes new or changed messages.
+ *
+ * @example
+ * ```typescript
+ * const tokenCounter = createCachedTokenCounter(createModelTokenCounter());
+ * const { processor } = createContextManager({ tokenCounter });
+ * // Later: tokenCounter.getStats() -> { hits, misses, size }
+ * ```
+ */
+
+import { createHash } from 'node:crypto';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { TokenCounter } from './types.js';
+
+/**
+ * Cache effectiveness counters
+ */
+export interface TokenCacheStats {
+    hits: number;
+    misses: number;
+    size: number;
+}
+
+/**
+ * A TokenCounter with a per-message cache
+ */
+export type CachedTokenCounter = TokenCounter & {
+    getStats: () => TokenCacheStats;
+    clear: () => void;
+};
+
+/**
+ * Hash the parts of a message that affect its token count
+ */
+function hashMessage(msg: MastraDBMessage): string {
+    return createHash('sha1')
+        .update(msg.role)
+        .update(JSON.stringify(msg.content) ?? '')
+        .digest('hex');
+}
+
+/**
+ * Wrap a TokenCounter so per-message counts are cached by id and content hash
+ * The wrapped counter is called with one message at a time, so it must be additive
+ * (the total for a list equals the sum of per-message counts)
+ */
+export function createCachedTokenCounter(
+    counter: TokenCounter,
+    options: { maxEntries?: number } = {}
+): CachedTokenCounter {
+    const { maxEntries = 10000 } = options;
+    const cache = new Map<string, { hash: string; tokens: number }>();
+    let hits = 0;
+    let misses = 0;
+
+    const countMessage = async (msg: MastraDBMessage, model?: string) => {
+        const key = `${model ?? ''}:${msg.id}`;
+        const hash = hashMessage(msg);
+        const cached = cache.get(key);
+
+        if (cached && cached.hash === hash) {
+            hits++;
+            // Refresh insertion order so eviction drops the least recently used entries
+            cache.delete(key);
+            cache.set(key, cached);
+            return cached.tokens;
+        }
+
+        misses++;
+        const tokens = await counter([msg], model);
+        cache.delete(key);
+        cache.set(key, { hash, tokens });
+
+        if (cache.size > maxEntries) {
+            cache.delete(cache.keys().next().value as string);
+        }
+
+        return tokens;
+    };
+
+    const cachedCounter = async (messages: MastraDBMessage[], model?: string) => {
+        let total = 0;
+        for (const msg of messages) {
+            total += await countMessage(msg, model);
+        }
+        return total;
+    };
+
+    return Object.assign(cachedCounter, {
+        getStats: () => ({ hits, misses, size: cache.size }),
+        clear: () => {
+            cache.clear();
+            hits = 0;
+            misses = 0;
+        },
+    });
+}
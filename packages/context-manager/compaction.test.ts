@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'bun:test';
+import { createToolOutputCompactor } from './compaction.js';
+import { createInMemoryArtifactStore } from './artifacts.js';
+import { stringToContentV2 } from './utils.js';
+import type { ProcessInputStepArgs } from '@mastra/core/processors';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+describe('createToolOutputCompactor', () => {
+    const createArgs = (messages: MastraDBMessage[]) =>
+        ({ messages, stepNumber: 1, estimatedTokens: 0 }) as unknown as ProcessInputStepArgs & {
+            estimatedTokens: number;
+        };
+
+    const createToolMessage = (
+        id: string,
+        toolCallId: string,
+        args: unknown,
+        result?: unknown
+    ): MastraDBMessage => ({
+        id,
+        role: 'assistant',
+        content: {
+            format: 2,
+            parts: [
+                {
+                    type: 'tool-invocation',
+                    toolInvocation: {
+                        state: result === undefined ? 'call' : 'result',
+                        toolCallId,
+                        toolName: 'readFile',
+                        args,
+                        result,
+                    },
+                } as any,
+            ],
+        },
+        createdAt: new Date(),
+    });
+
+    const createTextMessage = (id: string, text: string): MastraDBMessage => ({
+        id,
+        role: 'user',
+        content: stringToContentV2(text),
+        createdAt: new Date(),
+    });
+
+    const getInvocation = (msg: MastraDBMessage) => (msg.content.parts[0] as any).toolInvocation;
+
+    it('should replace oversized tool results with a reference stub', async () => {
+        const store = createInMemoryArtifactStore();
+        const compact = createToolOutputCompactor({ store, maxPartTokens: 10, keepRecent: 0 });
+        const bigOutput = 'x'.repeat(1000);
+        const messages = [createToolMessage('1', 'call-1', { filename: 'a.txt' }, bigOutput)];
+
+        const result = await compact(createArgs(messages));
+
+        expect(result).toBeDefined();
+        const invocation = getInvocation(result![0]);
+        expect(invocation.result).toContain('ref: artifact_');
+        expect(invocation.result).toContain('Preview: ');
+        expect(invocation.args).toEqual({ filename: 'a.txt' });
+
+        const id = /ref: (artifact_\w+)/.exec(invocation.result)![1];
+        const artifact = await store.get(id);
+        expect(artifact?.content).toBe(bigOutput);
+        expect(artifact?.metadata).toMatchObject({
+            kind: 'result',
+            toolCallId: 'call-1',
+            toolName: 'readFile',
+            messageId: '1',
+        });
+    });
+
+    it('should keep tool-call id, name and state so pairs stay intact', async () => {
+        const compact = createToolOutputCompactor({
+            store: createInMemoryArtifactStore(),
+            maxPartTokens: 10,
+            keepRecent: 0,
+        });
+        const messages = [
+            createToolMessage('1', 'call-1', { content: 'y'.repeat(500) }),
+            createToolMessage('2', 'call-1', { content: 'y'.repeat(500) }, 'ok'),
+        ];
+
+        const result = await compact(createArgs(messages));
+
+        expect(result).toHaveLength(2);
+        for (const msg of result!) {
+            const invocation = getInvocation(msg);
+            expect(invocation.toolCallId).toBe('call-1');
+            expect(invocation.toolName).toBe('readFile');
+            expect(typeof invocation.args).toBe('object');
+            expect(invocation.args.compacted).toContain('ref: artifact_');
+        }
+        expect(getInvocation(result![0]).state).toBe('call');
+        expect(getInvocation(result![1]).state).toBe('result');
+        expect(getInvocation(result![1]).result).toBe('ok');
+    });
+
+    it('should leave the most recent messages untouched', async () => {
+        const compact = createToolOutputCompactor({
+            store: createInMemoryArtifactStore(),
+            maxPartTokens: 10,
+            keepRecent: 1,
+        });
+        const messages = [
+            createToolMessage('1', 'call-1', {}, 'a'.repeat(500)),
+            createToolMessage('2', 'call-2', {}, 'b'.repeat(500)),
+        ];
+
+        const result = await compact(createArgs(messages));
+
+        expect(getInvocation(result![0]).result).toContain('ref: artifact_');
+        expect(result![1]).toBe(messages[1]);
+    });
+
+    it('should return undefined when nothing is oversized', async () => {
+        const compact = createToolOutputCompactor({
+            store: createInMemoryArtifactStore(),
+            keepRecent: 0,
+        });
+        const messages = [
+            createTextMessage('1', 'z'.repeat(10000)),
+            createToolMessage('2', 'call-1', {}, 'small'),
+        ];
+
+        expect(await compact(createArgs(messages))).toBeUndefined();
+    });
+});
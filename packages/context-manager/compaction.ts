@@ -0,0 +1,164 @@
+/**
+ * Built-in compact handler for oversized tool calls and results
+ *
+ * Moves large tool payloads into an ArtifactStore and leaves a reference stub with a
+ * short preview in their place. Parts are rewritten in place - never removed - so every
+ * tool call keeps its matching result and the model never sees an orphaned call.
+ *
+ * @example
+ * ```typescript
+ * const store = createInMemoryArtifactStore();
+ * const { processor } = createContextManager({
+ *   handlers: {
+ *     compact: createToolOutputCompactor({ store, maxPartTokens: 1000 }),
+ *   },
+ * });
+ * ```
+ */
+
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { ArtifactStore } from './artifacts.js';
+import { formatArtifactReference } from './artifacts.js';
+import type { ContextStrategyHandlers } from './types.js';
+import type { ToolInvocationPart } from './utils.js';
+import { estimateTextTokens, serializePayload } from './utils.js';
+
+/**
+ * Options for createToolOutputCompactor
+ */
+export interface ToolOutputCompactorOptions {
+    /**
+     * Where compacted payloads are written
+     */
+    store: ArtifactStore;
+
+    /**
+     * Tool args/results estimated above this many tokens are compacted (default: 1000)
+     */
+    maxPartTokens?: number;
+
+    /**
+     * Number of characters of the original payload kept in the stub (default: 200)
+     */
+    previewChars?: number;
+
+    /**
+     * Number of most recent messages left untouched (default: 2)
+     */
+    keepRecent?: number;
+
+    /**
+     * Token estimate for a serialized payload (default: estimateTextTokens)
+     */
+    estimateTokens?: (text: string) => number;
+}
+
+/**
+ * Build the reference stub left in place of a compacted payload
+ */
+export function formatCompactedStub(details: {
+    artifactId: string;
+    toolName: string;
+    kind: 'args' | 'result';
+    tokens: number;
+    preview: string;
+}): string {
+    const { artifactId, toolName, kind, tokens, preview } = details;
+    return `[Compacted tool ${kind} of "${toolName}" (~${Math.round(tokens)} tokens) - ${formatArtifactReference(artifactId)}]\nPreview: ${preview}`;
+}
+
+/**
+ * Creates a compact handler that offloads oversized tool-invocation payloads to a store
+ */
+export function createToolOutputCompactor(
+    options: ToolOutputCompactorOptions
+): NonNullable<ContextStrategyHandlers['compact']> {
+    const {
+        store,
+        maxPartTokens = 1000,
+        previewChars = 200,
+        keepRecent = 2,
+        estimateTokens = estimateTextTokens,
+    } = options;
+
+    /**
+     * Store a payload if it is oversized and return its stub, or undefined to keep it
+     */
+    const compactPayload = async (
+        payload: unknown,
+        kind: 'args' | 'result',
+        part: ToolInvocationPart,
+        msg: MastraDBMessage
+    ): Promise<string | undefined> => {
+        const serialized = serializePayload(payload);
+        const tokens = estimateTokens(serialized);
+        if (tokens <= maxPartTokens) {
+            return undefined;
+        }
+
+        const { toolCallId, toolName } = part.toolInvocation;
+        const artifactId = await store.put(serialized, {
+            kind,
+            toolCallId,
+            toolName,
+            messageId: msg.id,
+        });
+        const preview =
+            serialized.length > previewChars ? `${serialized.slice(0, previewChars)}…` : serialized;
+
+        return formatCompactedStub({ artifactId, toolName, kind, tokens, preview });
+    };
+
+    return async ({ messages }) => {
+        const cutoff = Math.max(0, messages.length - keepRecent);
+        let changed = false;
+
+        const compacted = await Promise.all(
+            messages.map(async (msg, idx) => {
+                if (idx >= cutoff || !Array.isArray(msg.content.parts)) {
+                    return msg;
+                }
+
+                let msgChanged = false;
+                const parts = await Promise.all(
+                    msg.content.parts.map(async part => {
+                        if (part.type !== 'tool-invocation') {
+                            return part;
+                        }
+
+                        const invocation = part.toolInvocation;
+                        const argsStub = await compactPayload(invocation.args, 'args', part, msg);
+                        const resultStub =
+                            invocation.state === 'result'
+                                ? await compactPayload(invocation.result, 'result', part, msg)
+                                : undefined;
+
+                        if (argsStub === undefined && resultStub === undefined) {
+                            return part;
+                        }
+
+                        msgChanged = true;
+                        return {
+                            ...part,
+                            toolInvocation: {
+                                ...invocation,
+                                // Args must stay an object for providers
+                                ...(argsStub !== undefined && { args: { compacted: argsStub } }),
+                                ...(resultStub !== undefined && { result: resultStub }),
+                            },
+                        } as ToolInvocationPart;
+                    })
+                );
+
+                if (!msgChanged) {
+                    return msg;
+                }
+
+                changed = true;
+                return { ...msg, content: { ...msg.content, parts } };
+            })
+        );
+
+        return changed ? compacted : undefined;
+    };
+}
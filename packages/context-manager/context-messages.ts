@@ -0,0 +1,67 @@
+/**
+ * System messages added by strategies
+ *
+ * Summaries, retrieved context and offload references are system messages. Mastra keeps
+ * system messages outside the message list: one returned in `messages` is re-added as plain
+ * text - without its id or metadata - and is never removed again, so they would pile up
+ * step after step.
+ *
+ * Instead, the system messages a step adds are returned through `systemMessages`, replacing
+ * the ones added before, and the full messages are kept in the processor state. The next
+ * step hands them back to the strategies, so a summary can be folded into the next one and
+ * a retrieval message replaced.
+ */
+
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { ProcessInputStepArgs, ProcessInputStepResult } from '@mastra/core/processors';
+import { getMessageText } from './utils.js';
+
+/**
+ * Processor state key holding the system messages added by the previous steps
+ */
+const STATE_KEY = 'contextMessages';
+
+type SystemMessage = ProcessInputStepArgs['systemMessages'][number];
+
+/**
+ * The step's messages with the system messages added by earlier steps put back in front,
+ * and the untagged system messages without them
+ */
+export function restoreContextMessages(args: ProcessInputStepArgs): {
+    messages: MastraDBMessage[];
+    systemMessages: SystemMessage[];
+} {
+    const previous = (args.state?.[STATE_KEY] as MastraDBMessage[] | undefined) ?? [];
+    const texts = new Set(previous.map(msg => getMessageText(msg)));
+
+    return {
+        messages: [...previous, ...args.messages],
+        systemMessages: (args.systemMessages ?? []).filter(
+            msg => typeof msg.content !== 'string' || !texts.has(msg.content)
+        ),
+    };
+}
+
+/**
+ * Split a step's output into list messages and the system messages it added (those not in
+ * `args.messages`), remembering the added ones for the next step
+ */
+export function routeContextMessages(
+    messages: MastraDBMessage[],
+    args: ProcessInputStepArgs,
+    systemMessages: SystemMessage[]
+): ProcessInputStepResult {
+    const inputIds = new Set(args.messages.map(msg => msg.id));
+    const added = messages.filter(msg => msg.role === 'system' && !inputIds.has(msg.id));
+    if (args.state) {
+        args.state[STATE_KEY] = added;
+    }
+
+    return {
+        messages: messages.filter(msg => !added.includes(msg)),
+        systemMessages: [
+            ...systemMessages,
+            ...added.map(msg => ({ role: 'system' as const, content: getMessageText(msg) })),
+        ],
+    };
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'bun:test';
+import {
+    createDedupeStrategy,
+    createDeduplicator,
+    formatDuplicateStub,
+    normalizeForDedupe,
+} from './dedupe.js';
+import { createContextManager } from './index.js';
+import { getMessageText, stringToContentV2 } from './utils.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { StrategyHandlerArgs } from './types.js';
+
+const createToolMessage = (id: string, result: string, toolName = 'readFile'): MastraDBMessage => ({
+    id,
+    role: 'assistant',
+    content: {
+        format: 2,
+        parts: [
+            {
+                type: 'tool-invocation',
+                toolInvocation: {
+                    state: 'result',
+                    toolCallId: `call-${id}`,
+                    toolName,
+                    args: { path: 'src/index.ts' },
+                    result,
+                },
+            },
+        ],
+    },
+    createdAt: new Date(),
+});
+
+const createMessage = (
+    id: string,
+    text: string,
+    role: 'user' | 'assistant' = 'assistant'
+): MastraDBMessage => ({
+    id,
+    role,
+    content: stringToContentV2(text),
+    createdAt: new Date(),
+});
+
+const getResult = (msg: MastraDBMessage) =>
+    (msg.content.parts[0] as { toolInvocation: { result: unknown } }).toolInvocation.result;
+
+const run = (messages: MastraDBMessage[], options?: Parameters<typeof createDeduplicator>[0]) =>
+    createDeduplicator(options)({ messages } as StrategyHandlerArgs);
+
+describe('dedupe', () => {
+    const file = 'export const answer = 42;\n'.repeat(20);
+
+    it('should replace earlier copies of a tool result with a stub pointing at the newest', async () => {
+        const messages = [
+            createToolMessage('1', file),
+            createToolMessage('2', 'other output '.repeat(20)),
+            createToolMessage('3', file),
+            createToolMessage('4', file),
+        ];
+        const result = (await run(messages))!;
+
+        const stub = formatDuplicateStub({ kind: 'result', reference: 'call-4', near: false });
+        expect(result.map(getResult)).toEqual([stub, getResult(messages[1]), stub, file]);
+        expect(stub).toBe('[Identical to result call-4 - see the later copy]');
+    });
+
+    it('should dedupe repeated assistant text but never user or system messages', async () => {
+        const text = 'Here is the full file again: '.repeat(10);
+        const result = (await run([
+            createMessage('u1', text, 'user'),
+            createMessage('a1', text),
+            createMessage('a2', text),
+            createMessage('u2', text, 'user'),
+        ]))!;
+
+        expect(result.map(msg => getMessageText(msg))).toEqual([
+            text,
+            '[Identical to message a2 - see the later copy]',
+            text,
+            text,
+        ]);
+    });
+
+    it('should skip short payloads and return undefined when nothing repeats', async () => {
+        expect(await run([createToolMessage('1', 'ok'), createToolMessage('2', 'ok')])).toBe(
+            undefined
+        );
+        expect(await run([createToolMessage('1', file)])).toBeUndefined();
+    });
+
+    it('should treat outputs differing in timestamps and whitespace as near duplicates', async () => {
+        const log = (time: string) =>
+            `[${time}] build started\n  compiling 42 modules\n[${time}] build finished\n`.repeat(5);
+        const messages = [
+            createToolMessage('1', log('2024-05-01T10:00:00Z')),
+            createToolMessage('2', log('2024-05-01T10:05:13.120Z').replace(/\n/g, '\n ')),
+        ];
+
+        expect(await run(messages)).toBeUndefined();
+
+        const result = (await run(messages, { nearDuplicates: true }))!;
+        expect(getResult(result[0])).toBe(
+            '[Same as result call-2 apart from timestamps and whitespace - see the later copy]'
+        );
+        expect(getResult(result[1])).toBe(getResult(messages[1]));
+    });
+
+    it('should normalize timestamps and whitespace', () => {
+        expect(normalizeForDedupe('  at 12:30:01  on 2024-05-01\n\tepoch 1714557601 ')).toBe(
+            'at <ts> on <ts> epoch <ts>'
+        );
+    });
+
+    it('should run as a pipeline strategy', async () => {
+        const { processor, getLastReport } = createContextManager({
+            pipeline: ['filter', createDedupeStrategy()],
+        });
+        const messages = [createToolMessage('1', file), createToolMessage('2', file)];
+
+        const result = await processor.processInputStep?.({
+            messages,
+            messageList: {} as any,
+            stepNumber: 1,
+            steps: [],
+            systemMessages: [],
+            model: 'anthropic/claude-sonnet-4-5',
+            abort: () => {
+                throw new Error('Aborted');
+            },
+            tracingContext: undefined,
+            requestContext: undefined,
+            retryCount: 0,
+        });
+
+        const output = (result as { messages: MastraDBMessage[] }).messages;
+        expect(getResult(output[0])).toBe('[Identical to result call-2 - see the later copy]');
+        expect(getLastReport()?.strategies[0]).toMatchObject({
+            strategy: 'dedupe',
+            status: 'applied',
+        });
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Duplicate output deduplication
+ *
+ * Long runs re-read the same file or re-run the same command, so identical multi-KB
+ * outputs pile up in context. The dedupe strategy hashes tool results and text parts,
+ * keeps the newest copy and replaces earlier repeats with a short stub pointing at it.
+ * Parts are rewritten in place - never removed - so tool calls keep their results.
+ *
+ * @example
+ * ```typescript
+ * const dedupe = createDedupeStrategy({ nearDuplicates: true });
+ * const { processor } = createContextManager({
+ *   pipeline: ['filter', dedupe, 'compact', 'summarize', 'offload'],
+ * });
+ * ```
+ */
+
+import { createHash } from 'node:crypto';
+import type { MastraDBMessage, MastraMessagePart } from '@mastra/core/agent/message-list';
+import { defineStrategy } from './pipeline.js';
+import type { ContextStrategy, ContextStrategyHandlers } from './types.js';
+import { serializePayload } from './utils.js';
+
+/**
+ * Options for createDeduplicator and createDedupeStrategy
+ */
+export interface DedupeOptions {
+    /**
+     * Also treat outputs that differ only in timestamps or whitespace as duplicates
+     * (default: false)
+     */
+    nearDuplicates?: boolean;
+
+    /**
+     * Normalization applied before hashing in near-duplicate mode
+     * (default: normalizeForDedupe)
+     */
+    normalize?: (text: string) => string;
+
+    /**
+     * Payloads shorter than this many characters are left alone (default: 200)
+     */
+    minChars?: number;
+}
+
+// ISO dates and datetimes, clock times and unix timestamps in seconds or milliseconds
+const TIMESTAMP_PATTERNS = [
+    /\b\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?\b/g,
+    /\b\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?\b/g,
+    /\b1\d{9}(?:\d{3})?\b/g,
+];
+
+/**
+ * Default near-duplicate normalization: mask timestamps and collapse whitespace
+ */
+export function normalizeForDedupe(text: string): string {
+    return TIMESTAMP_PATTERNS.reduce(
+        (normalized, pattern) => normalized.replace(pattern, '<ts>'),
+        text
+    )
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Build the stub left in place of an earlier copy
+ */
+export function formatDuplicateStub(details: {
+    kind: 'result' | 'message';
+    reference: string;
+    near: boolean;
+}): string {
+    const { kind, reference, near } = details;
+    return near
+        ? `[Same as ${kind} ${reference} apart from timestamps and whitespace - see the later copy]`
+        : `[Identical to ${kind} ${reference} - see the later copy]`;
+}
+
+/**
+ * Creates a handler that replaces earlier copies of repeated tool results and text parts
+ * Tool results are only compared with tool results and text with text. System and user
+ * messages are never rewritten
+ */
+export function createDeduplicator(
+    options: DedupeOptions = {}
+): NonNullable<ContextStrategyHandlers['filter']> {
+    const { nearDuplicates = false, normalize = normalizeForDedupe, minChars = 200 } = options;
+
+    const hash = (kind: string, text: string) =>
+        createHash('sha1').update(kind).update('\0').update(text).digest('hex');
+
+    return async ({ messages }) => {
+        // Newest copy of each payload, keyed by exact and (optionally) normalized hash
+        const newest = new Map<string, string>();
+        let changed = false;
+
+        /**
+         * Return the stub for a payload seen later in context, or record this copy as newest
+         */
+        const dedupe = (kind: 'result' | 'message', text: string, reference: string) => {
+            if (text.length < minChars) {
+                return undefined;
+            }
+
+            const exact = hash(kind, text);
+            const near = nearDuplicates ? hash(kind, normalize(text)) : undefined;
+            const match = newest.get(exact) ?? (near && newest.get(`~${near}`));
+            if (match) {
+                return formatDuplicateStub({
+                    kind,
+                    reference: match,
+                    near: !newest.has(exact),
+                });
+            }
+
+            newest.set(exact, reference);
+            if (near) {
+                newest.set(`~${near}`, reference);
+            }
+            return undefined;
+        };
+
+        const deduped = [...messages].reverse().map(msg => {
+            if (msg.role === 'system' || msg.role === 'user' || !Array.isArray(msg.content.parts)) {
+                return msg;
+            }
+
+            let msgChanged = false;
+            const parts = [...msg.content.parts].reverse().map(part => {
+                if (part.type === 'text') {
+                    const stub = dedupe('message', part.text, msg.id);
+                    if (stub === undefined) {
+                        return part;
+                    }
+                    msgChanged = true;
+                    return { ...part, text: stub };
+                }
+
+                if (part.type === 'tool-invocation' && part.toolInvocation.state === 'result') {
+                    const invocation = part.toolInvocation;
+                    const stub = dedupe(
+                        'result',
+                        serializePayload(invocation.result),
+                        invocation.toolCallId
+                    );
+                    if (stub === undefined) {
+                        return part;
+                    }
+                    msgChanged = true;
+                    return { ...part, toolInvocation: { ...invocation, result: stub } };
+                }
+
+                return part;
+            });
+
+            if (!msgChanged) {
+                return msg;
+            }
+
+            changed = true;
+            return {
+                ...msg,
+                content: { ...msg.content, parts: parts.reverse() as MastraMessagePart[] },
+            } as MastraDBMessage;
+        });
+
+        return changed ? deduped.reverse() : undefined;
+    };
+}
+
+/**
+ * Creates the dedupe strategy for `pipeline`
+ * Runs on every step unless `thresholds.dedupe` is set
+ */
+export function createDedupeStrategy(options: DedupeOptions = {}): ContextStrategy<'dedupe'> {
+    return defineStrategy({
+        name: 'dedupe',
+        handler: createDeduplicator(options),
+    });
+}
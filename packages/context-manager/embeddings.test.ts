@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'bun:test';
+import { cosineSimilarity, createHashEmbedder } from './embeddings.js';
+
+describe('embeddings', () => {
+    describe('cosineSimilarity', () => {
+        it('should compare vector directions', () => {
+            expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+            expect(cosineSimilarity([1, 0], [0, 1])).toBeCloseTo(0);
+            expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+        });
+
+        it('should return 0 for zero vectors', () => {
+            expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+        });
+    });
+
+    describe('createHashEmbedder', () => {
+        it('should be deterministic and normalized', async () => {
+            const embedder = createHashEmbedder({ dimensions: 64 });
+            const [a] = await embedder.embed(['Deploy the API']);
+            const [b] = await createHashEmbedder({ dimensions: 64 }).embed(['deploy the api']);
+
+            expect(a).toHaveLength(64);
+            expect(a).toEqual(b);
+            expect(Math.hypot(...a)).toBeCloseTo(1);
+        });
+
+        it('should make texts that share words more similar', async () => {
+            const [query, related, unrelated] = await createHashEmbedder().embed([
+                'restart the payment service',
+                'payment service restarted after the deploy',
+                'lunch menu for friday',
+            ]);
+            expect(cosineSimilarity(query, related)).toBeGreaterThan(
+                cosineSimilarity(query, unrelated)
+            );
+        });
+    });
+});
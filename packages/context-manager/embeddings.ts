@@ -0,0 +1,75 @@
+/**
+ * Embeddings
+ *
+ * A minimal embedder interface so scoring and retrieval work with any provider
+ * (Mastra's `embedMany`, OpenAI, a local model), plus a deterministic hash embedder
+ * for tests and offline development.
+ *
+ * @example
+ * ```typescript
+ * import { embedMany } from 'ai';
+ *
+ * const embedder: Embedder = {
+ *   embed: async texts =>
+ *     (await embedMany({ model: openai.embedding('text-embedding-3-small'), values: texts }))
+ *       .embeddings,
+ * };
+ * ```
+ */
+
+/**
+ * Turns texts into vectors, one per text and in the same order
+ */
+export interface Embedder {
+    embed: (texts: string[], options?: { abortSignal?: AbortSignal }) => Promise<number[][]>;
+}
+
+/**
+ * Cosine similarity of two vectors, 0 when either is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedder - each word is hashed into a bucket
+ * Texts sharing words are similar; no model or network needed
+ */
+export function createHashEmbedder(options: { dimensions?: number } = {}): Embedder {
+    const { dimensions = 256 } = options;
+
+    const embedOne = (text: string) => {
+        const vector = new Array<number>(dimensions).fill(0);
+        for (const word of text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? []) {
+            const hash = fnv1a(word);
+            // Top bit picks the sign so unrelated words tend to cancel out
+            vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+        }
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm === 0 ? vector : vector.map(value => value / norm);
+    };
+
+    return {
+        embed: async texts => texts.map(embedOne),
+    };
+}
@@ -0,0 +1,19 @@
+/**
+ * Errors passed to onError by the orchestrator
+ */
+
+/**
+ * A strategy handler did not finish within its configured timeoutMs
+ * The handler's abortSignal is aborted with this error
+ */
+export class TimeoutError extends Error {
+    readonly strategy: string;
+    readonly timeoutMs: number;
+
+    constructor(strategy: string, timeoutMs: number) {
+        super(`Strategy "${strategy}" timed out after ${timeoutMs}ms`);
+        this.name = 'TimeoutError';
+        this.strategy = strategy;
+        this.timeoutMs = timeoutMs;
+    }
+}
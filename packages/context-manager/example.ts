@@ -179,12 +179,10 @@ export function example4_Complete() {
             onError: async (error, strategy, args) => {
                 console.error(`[Context Manager] ${strategy} handler failed:`, error);
                 // metrics.increment('context_manager.error', { strategy });
-                return true; // Continue with original messages
             },
             onValidationError: async (strategy, args, reason) => {
                 console.warn(`[Context Manager] ${strategy} validation failed:`, reason);
                 // metrics.increment('context_manager.validation_error', { strategy });
-                return true; // Continue with original messages
             },
             afterModify: async (args, messages, strategy) => {
                 console.log(`Applied ${strategy} strategy`);
@@ -1,5 +1,5 @@
 import { describe, it, expect, mock, beforeEach, spyOn } from 'bun:test';
-import { createContextManager } from './index.js';
+import { createContextManager, defineStrategy, TimeoutError } from './index.js';
 import { stringToContentV2 } from './utils.js';
 import type { ProcessInputStepArgs } from '@mastra/core/processors';
 import type { MastraDBMessage } from '@mastra/core/agent/message-list';
@@ -217,7 +217,7 @@ describe('createContextManager', () => {
                 },
                 thresholds: { summarize: 1 },
                 stepTriggers: { summarizeEvery: 20 },
-                retention: { keepRecent: 2 },
+                retention: { keepRecent: 2, keepUserMessages: false },
                 tokenCounter: async () => 1000,
             });
             const messages = [
@@ -234,6 +234,56 @@ describe('createContextManager', () => {
             expect(callArgs.recentMessages).toHaveLength(2);
         });
 
+        it('should keep the system prompt, the user task and tool pairs out of the summary', async () => {
+            const summarizeHandler = mock(async (args: any) => args.recentMessages);
+            const { processor } = createContextManager({
+                handlers: { summarize: summarizeHandler },
+                thresholds: { summarize: 1 },
+                stepTriggers: { summarizeEvery: 20 },
+                retention: { keepRecent: 2 },
+                tokenCounter: async () => 1000,
+            });
+            const toolMessage = (id: string, state: 'call' | 'result'): MastraDBMessage => ({
+                id,
+                role: 'assistant',
+                content: {
+                    format: 2,
+                    parts: [
+                        {
+                            type: 'tool-invocation',
+                            toolInvocation: {
+                                state,
+                                toolCallId: 'call-1',
+                                toolName: 'search',
+                                args: {},
+                                ...(state === 'result' && { result: 'found' }),
+                            },
+                        } as MastraDBMessage['content']['parts'][number],
+                    ],
+                },
+                createdAt: new Date(),
+            });
+            const messages = [
+                createMessage('sys', 'system', 'You are a researcher'),
+                createMessage('task', 'user', 'Research the topic'),
+                createMessage('a1', 'assistant', 'Planning'),
+                toolMessage('call', 'call'),
+                toolMessage('result', 'result'),
+                createMessage('a2', 'assistant', 'Done'),
+            ];
+            await processor.processInputStep?.(createMockArgs(20, messages));
+
+            const callArgs = summarizeHandler.mock.calls[0][0];
+            expect(callArgs.oldMessages.map((m: MastraDBMessage) => m.id)).toEqual(['a1']);
+            expect(callArgs.recentMessages.map((m: MastraDBMessage) => m.id)).toEqual([
+                'sys',
+                'task',
+                'call',
+                'result',
+                'a2',
+            ]);
+        });
+
         it('should not call summarize handler when step is not multiple', async () => {
             const summarizeHandler = mock(() => Promise.resolve([]));
             const { processor } = createContextManager({
@@ -279,6 +329,31 @@ describe('createContextManager', () => {
             expect(callArgs.messagesToKeep.length).toBeGreaterThan(0);
             expect(callArgs.messagesToOffload.length).toBeGreaterThan(0);
         });
+
+        it('should hand messages to offload lowest score first with a scorer', async () => {
+            const offloadHandler = mock(async (args: any) => args.messagesToKeep);
+            const { processor } = createContextManager({
+                handlers: { offload: offloadHandler },
+                thresholds: { offload: 1 },
+                stepTriggers: { minStepsForOffload: 1 },
+                retention: { keepRecent: 1, keepUserMessages: false },
+                scorer: messages => messages.map(msg => (msg.id === '2' ? 0 : 1)),
+                tokenCounter: async () => 1000,
+            });
+            await processor.processInputStep?.(
+                createMockArgs(10, [
+                    createMessage('1', 'user', 'One'),
+                    createMessage('2', 'assistant', 'Two'),
+                    createMessage('3', 'assistant', 'Three'),
+                ])
+            );
+
+            const callArgs = offloadHandler.mock.calls[0][0];
+            expect(callArgs.messagesToOffload.map((m: MastraDBMessage) => m.id)).toEqual([
+                '2',
+                '1',
+            ]);
+        });
     });
 
     describe('shouldRunStrategy hook', () => {
@@ -321,6 +396,39 @@ describe('createContextManager', () => {
             expect(result).toBeUndefined(); // Should skip invalid handler result
         });
 
+        it('should pass structured issues to onValidationError', async () => {
+            const onValidationError = mock(() => true);
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: async (args: any) => [
+                        {
+                            ...args.messages[0],
+                            content: { format: 2, parts: [{ type: 'image', url: 'x' }] },
+                        },
+                    ],
+                },
+                hooks: { onValidationError },
+                thresholds: { filter: 1 },
+                tokenCounter: async () => 1000,
+            });
+            await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hello')])
+            );
+
+            expect(onValidationError).toHaveBeenCalledWith(
+                'filter',
+                expect.anything(),
+                'messages[0].content.parts[0].type: unknown part type "image"',
+                [
+                    {
+                        path: [0, 'content', 'parts', 0, 'type'],
+                        code: 'invalid_union',
+                        message: 'unknown part type "image"',
+                    },
+                ]
+            );
+        });
+
         it('should skip validation when validateHandlers is false', async () => {
             const filterHandler = mock(() => Promise.resolve([{ invalid: 'message' }] as any));
             const { processor } = createContextManager({
@@ -384,6 +492,99 @@ describe('createContextManager', () => {
             // Should rollback to original messages (no changes applied)
             expect(result).toBeUndefined();
         });
+
+        it('should roll back to the last successful strategy by default', async () => {
+            const onError = mock(() => true);
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: async () => [createMessage('1', 'user', 'filtered')],
+                    compact: async () => [createMessage('1', 'user', 'compacted')],
+                },
+                hooks: {
+                    afterModify: (_args, messages, strategy) => {
+                        if (strategy === 'compact') {
+                            throw new Error('afterModify error');
+                        }
+                        return messages;
+                    },
+                    onError,
+                },
+                thresholds: { filter: 1, compact: 1 },
+                stepTriggers: { minStepsForCompact: 0 },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hello')])
+            );
+
+            expect(result?.messages[0].content).toEqual(stringToContentV2('filtered'));
+            expect(onError).toHaveBeenCalledWith(
+                expect.any(Error),
+                'compact',
+                expect.anything(),
+                {
+                    policy: 'checkpoint',
+                    restoredTo: 'filter',
+                    aborted: false,
+                },
+                { index: 0, count: 1, attempt: 1 }
+            );
+        });
+
+        it('should keep earlier results when a later handler throws', async () => {
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: async () => [createMessage('1', 'user', 'filtered')],
+                    compact: async () => {
+                        throw new Error('compact failed');
+                    },
+                },
+                thresholds: { filter: 1, compact: 1 },
+                stepTriggers: { minStepsForCompact: 0 },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hello')])
+            );
+            expect(result?.messages[0].content).toEqual(stringToContentV2('filtered'));
+        });
+
+        it('should restore the original messages and stop in all-or-nothing mode', async () => {
+            const onError = mock(() => true);
+            const offloadHandler = mock(() => Promise.resolve(undefined));
+            const { processor, getLastReport } = createContextManager({
+                rollback: 'all-or-nothing',
+                handlers: {
+                    filter: async () => [createMessage('1', 'user', 'filtered')],
+                    compact: async () => {
+                        throw new Error('compact failed');
+                    },
+                    offload: offloadHandler,
+                },
+                hooks: { onError },
+                thresholds: { filter: 1, compact: 1, offload: 1 },
+                stepTriggers: { minStepsForCompact: 0, minStepsForOffload: 0 },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hello')])
+            );
+
+            expect(result).toBeUndefined();
+            expect(offloadHandler).not.toHaveBeenCalled();
+            expect(onError).toHaveBeenCalledWith(
+                expect.any(Error),
+                'compact',
+                expect.anything(),
+                {
+                    policy: 'all-or-nothing',
+                    restoredTo: undefined,
+                    aborted: true,
+                },
+                { index: 0, count: 1, attempt: 1 }
+            );
+            expect(getLastReport()?.strategies.map(e => e.strategy)).toEqual(['filter', 'compact']);
+        });
     });
 
     describe('tokenCounter', () => {
@@ -411,6 +612,930 @@ describe('createContextManager', () => {
             await processor.processInputStep?.(args);
             expect(customCounter).toHaveBeenCalledWith(expect.any(Array), 'gpt-4');
         });
+
+        it('should count images at a fixed cost by default', async () => {
+            const filter = mock(async ({ messages }: { messages: MastraDBMessage[] }) => messages);
+            const { processor, getLastReport } = createContextManager({
+                handlers: { filter },
+                thresholds: { filter: 5000 },
+            });
+            const screenshot: MastraDBMessage = {
+                id: '1',
+                role: 'user',
+                content: {
+                    format: 2,
+                    parts: [
+                        { type: 'text', text: 'What is on this screen?' },
+                        { type: 'file', mimeType: 'image/png', data: 'A'.repeat(400_000) },
+                    ],
+                },
+                createdAt: new Date(),
+            };
+
+            await processor.processInputStep?.(createMockArgs(1, [screenshot]));
+
+            expect(filter).not.toHaveBeenCalled();
+            expect(getLastReport()?.estimatedTokens).toBeLessThan(1100);
+        });
+    });
+
+    describe('re-estimation between strategies', () => {
+        // 1000 tokens per message
+        const countByMessages = async (messages: MastraDBMessage[]) => messages.length * 1000;
+
+        const createLongConversation = () =>
+            Array.from({ length: 10 }, (_, i) =>
+                createMessage(`${i}`, 'assistant', `Message ${i}`)
+            );
+
+        it('should gate later strategies on the recounted size', async () => {
+            const filterHandler = mock((args: any) => Promise.resolve(args.messages.slice(-2)));
+            const offloadHandler = mock(() => Promise.resolve(undefined));
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: filterHandler,
+                    offload: offloadHandler,
+                },
+                thresholds: { filter: 5000, offload: 5000 },
+                stepTriggers: { minStepsForOffload: 1 },
+                retention: { keepRecent: 1 },
+                tokenCounter: countByMessages,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(10, createLongConversation())
+            );
+            expect(filterHandler).toHaveBeenCalled();
+            expect(offloadHandler).not.toHaveBeenCalled();
+            expect(result?.messages).toHaveLength(2);
+        });
+
+        it('should pass estimatedTokens and tokensBeforeStrategy to handlers', async () => {
+            const filterHandler = mock((args: any) => Promise.resolve(args.messages.slice(-6)));
+            const compactHandler = mock(() => Promise.resolve(undefined));
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: filterHandler,
+                    compact: compactHandler,
+                },
+                thresholds: { filter: 1, compact: 1 },
+                stepTriggers: { minStepsForCompact: 1 },
+                tokenCounter: countByMessages,
+            });
+            await processor.processInputStep?.(createMockArgs(10, createLongConversation()));
+            const filterArgs = filterHandler.mock.calls[0][0];
+            expect(filterArgs.estimatedTokens).toBe(10000);
+            expect(filterArgs.tokensBeforeStrategy).toBe(10000);
+            const compactArgs = (compactHandler.mock.calls[0] as any)[0];
+            expect(compactArgs.estimatedTokens).toBe(10000);
+            expect(compactArgs.tokensBeforeStrategy).toBe(6000);
+        });
+
+        it('should keep the single estimate when recountBetweenStrategies is false', async () => {
+            const tokenCounter = mock(countByMessages);
+            const filterHandler = mock((args: any) => Promise.resolve(args.messages.slice(-2)));
+            const offloadHandler = mock(() => Promise.resolve(undefined));
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: filterHandler,
+                    offload: offloadHandler,
+                },
+                thresholds: { filter: 5000, offload: 5000 },
+                stepTriggers: { minStepsForOffload: 1 },
+                retention: { keepRecent: 1 },
+                tokenCounter,
+                recountBetweenStrategies: false,
+            });
+            await processor.processInputStep?.(createMockArgs(10, createLongConversation()));
+            expect(offloadHandler).toHaveBeenCalled();
+            expect(tokenCounter).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('budget mode', () => {
+        const countByMessages = async (messages: MastraDBMessage[]) => messages.length * 1000;
+        const createLongConversation = () =>
+            Array.from({ length: 10 }, (_, i) =>
+                createMessage(`${i}`, 'assistant', `Message ${i}`)
+            );
+        const keepLast = (count: number) =>
+            mock((args: any) => Promise.resolve(args.messages.slice(-count)));
+
+        it('should escalate past thresholds and step triggers until under target', async () => {
+            const filterHandler = keepLast(8);
+            const compactHandler = keepLast(4);
+            const summarizeHandler = keepLast(1);
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: filterHandler,
+                    compact: compactHandler,
+                    summarize: summarizeHandler,
+                },
+                thresholds: { filter: 100000, compact: 100000 },
+                stepTriggers: { minStepsForCompact: 50 },
+                budget: { targetTokens: 5000 },
+                tokenCounter: countByMessages,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(3, createLongConversation())
+            );
+            expect(filterHandler).toHaveBeenCalled();
+            expect(compactHandler).toHaveBeenCalled();
+            expect(summarizeHandler).not.toHaveBeenCalled(); // Already under target
+            expect(result?.messages).toHaveLength(4);
+        });
+
+        it('should follow the configured escalation order', async () => {
+            const calls: string[] = [];
+            const track = (name: string, count: number) => async (args: any) => {
+                calls.push(name);
+                return args.messages.slice(-count);
+            };
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: track('filter', 9),
+                    offload: track('offload', 2),
+                },
+                thresholds: { filter: 100000, offload: 100000 },
+                retention: { keepRecent: 2 },
+                budget: { targetTokens: 5000, order: ['offload', 'filter'] },
+                tokenCounter: countByMessages,
+            });
+            await processor.processInputStep?.(createMockArgs(1, createLongConversation()));
+            expect(calls).toEqual(['offload']);
+        });
+
+        it('should report a structured outcome when the budget is not met', async () => {
+            const onBudgetNotMet = mock(() => {});
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: keepLast(8),
+                    compact: async () => undefined,
+                },
+                hooks: { onBudgetNotMet },
+                budget: { targetTokens: 2000, hardLimit: '5%' },
+                contextWindow: 100000,
+                thresholds: { filter: 100000 },
+                tokenCounter: countByMessages,
+            });
+            await processor.processInputStep?.(createMockArgs(1, createLongConversation()));
+            expect(onBudgetNotMet).toHaveBeenCalledTimes(1);
+            const [outcome] = (onBudgetNotMet.mock.calls[0] as any[]) ?? [];
+            expect(outcome).toEqual({
+                targetTokens: 2000,
+                hardLimit: 5000,
+                estimatedTokens: 10000,
+                finalTokens: 8000,
+                attemptedStrategies: ['filter', 'compact'],
+            });
+        });
+
+        it('should not report when the final size is within the hard limit', async () => {
+            const onBudgetNotMet = mock(() => {});
+            const { processor } = createContextManager({
+                handlers: { filter: keepLast(6) },
+                hooks: { onBudgetNotMet },
+                budget: { targetTokens: 5000, hardLimit: 7000 },
+                tokenCounter: countByMessages,
+            });
+            await processor.processInputStep?.(createMockArgs(1, createLongConversation()));
+            expect(onBudgetNotMet).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('percentage thresholds', () => {
+        it('should resolve thresholds against the model context window', async () => {
+            const filterHandler = mock(() =>
+                Promise.resolve([createMessage('1', 'user', 'filtered')])
+            );
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: filterHandler,
+                },
+                thresholds: { filter: '60%' },
+                tokenCounter: async () => 50000,
+            });
+
+            // 60% of 32k = 19.2k - should filter
+            const smallModelArgs = createMockArgs(1, [createMessage('1', 'user', 'Hello')]);
+            smallModelArgs.model = 'mistral-small';
+            await processor.processInputStep?.(smallModelArgs);
+            expect(filterHandler).toHaveBeenCalledTimes(1);
+
+            // 60% of 200k = 120k - should not filter
+            await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hello')])
+            );
+            expect(filterHandler).toHaveBeenCalledTimes(1);
+        });
+
+        it('should use a custom contextWindow resolver', async () => {
+            const filterHandler = mock(() =>
+                Promise.resolve([createMessage('1', 'user', 'filtered')])
+            );
+            const contextWindow = mock(() => 1000);
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: filterHandler,
+                },
+                thresholds: { filter: '50%' },
+                contextWindow,
+                tokenCounter: async () => 600,
+            });
+            await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hello')])
+            );
+            expect(contextWindow).toHaveBeenCalledWith('anthropic/claude-sonnet-4-5');
+            expect(filterHandler).toHaveBeenCalled();
+        });
+
+        it('should reject malformed thresholds when created', () => {
+            expect(() => createContextManager({ thresholds: { filter: 'lots' as any } })).toThrow(
+                'Invalid threshold'
+            );
+        });
+    });
+
+    describe('strategy pipeline', () => {
+        const dropDuplicates = defineStrategy({
+            name: 'dedupe',
+            handler: args => {
+                const seen = new Set<string>();
+                return args.messages.filter(msg => {
+                    const text = JSON.stringify(msg.content);
+                    if (seen.has(text)) {
+                        return false;
+                    }
+                    seen.add(text);
+                    return true;
+                });
+            },
+        });
+
+        it('should run strategies in pipeline order', async () => {
+            const calls: string[] = [];
+            const { processor } = createContextManager({
+                pipeline: ['compact', 'filter'],
+                handlers: {
+                    filter: async () => {
+                        calls.push('filter');
+                        return undefined;
+                    },
+                    compact: async () => {
+                        calls.push('compact');
+                        return undefined;
+                    },
+                },
+                thresholds: { filter: 0, compact: 0 },
+                stepTriggers: { minStepsForCompact: 0 },
+                tokenCounter: async () => 1000,
+            });
+            await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hi')])
+            );
+            expect(calls).toEqual(['compact', 'filter']);
+        });
+
+        it('should run custom strategies alongside built-ins', async () => {
+            const filterHandler = mock((args: any) => Promise.resolve(args.messages));
+            const afterModify = mock(
+                (_args: ProcessInputStepArgs, messages: MastraDBMessage[], _strategy: string) =>
+                    messages
+            );
+            const { processor } = createContextManager({
+                pipeline: [dropDuplicates, 'filter'],
+                handlers: { filter: filterHandler },
+                thresholds: { filter: 0 },
+                hooks: { afterModify },
+                tokenCounter: async messages => messages.length * 1000,
+            });
+            const messages = [
+                createMessage('1', 'user', 'Same'),
+                createMessage('2', 'user', 'Same'),
+                createMessage('3', 'assistant', 'Different'),
+            ];
+            const result = await processor.processInputStep?.(createMockArgs(1, messages));
+
+            expect(result?.messages.map(m => m.id)).toEqual(['1', '3']);
+            expect(filterHandler.mock.calls[0][0].messages).toHaveLength(2);
+            expect(afterModify.mock.calls.map(call => call[2])).toEqual(['dedupe', 'filter']);
+        });
+
+        it('should gate custom strategies on their threshold', async () => {
+            const handler = mock((args: any) => args.messages);
+            const { processor } = createContextManager({
+                pipeline: [defineStrategy({ name: 'redact', handler })],
+                thresholds: { redact: '1%' },
+                contextWindow: 100000,
+                tokenCounter: async () => 1000,
+            });
+            await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hi')])
+            );
+            expect(handler).not.toHaveBeenCalled();
+        });
+
+        it('should use a custom trigger and pass the strategy context', async () => {
+            const handler = mock(() => undefined);
+            const { processor } = createContextManager({
+                pipeline: [
+                    defineStrategy({
+                        name: 'redact',
+                        shouldTrigger: context => context.stepNumber % 2 === 0,
+                        handler,
+                    }),
+                ],
+                tokenCounter: async () => 1000,
+            });
+            await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hi')])
+            );
+            await processor.processInputStep?.(
+                createMockArgs(2, [createMessage('1', 'user', 'Hi')])
+            );
+
+            expect(handler).toHaveBeenCalledTimes(1);
+            expect((handler.mock.calls[0] as any[])[1]).toMatchObject({
+                stepNumber: 2,
+                estimatedTokens: 1000,
+                tokensBeforeStrategy: 1000,
+            });
+        });
+
+        it('should type hooks against registered strategy names', () => {
+            createContextManager({
+                pipeline: ['filter', dropDuplicates],
+                hooks: {
+                    shouldRunStrategy: strategy => {
+                        // @ts-expect-error - 'redact' is not in this pipeline
+                        return strategy !== 'redact';
+                    },
+                },
+                strategies: { dedupe: true },
+            });
+        });
+
+        it('should escalate through custom strategies in budget mode', async () => {
+            const { processor } = createContextManager({
+                pipeline: [
+                    defineStrategy({
+                        name: 'trim',
+                        shouldTrigger: () => false,
+                        handler: args => args.messages.slice(-1),
+                    }),
+                ],
+                budget: { targetTokens: 1000, order: ['trim'] },
+                tokenCounter: async messages => messages.length * 1000,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(1, [
+                    createMessage('1', 'user', 'One'),
+                    createMessage('2', 'user', 'Two'),
+                ])
+            );
+            expect(result?.messages.map(m => m.id)).toEqual(['2']);
+        });
+    });
+
+    describe('step report', () => {
+        it('should record applied and skipped strategies with reasons', async () => {
+            const onStepReport = mock(() => {});
+            const { processor, getLastReport } = createContextManager({
+                handlers: {
+                    filter: async (args: any) => args.messages.slice(-1),
+                    compact: async () => undefined,
+                    summarize: async () => undefined,
+                    offload: async () => undefined,
+                },
+                thresholds: { filter: 0, compact: 0, summarize: 100000, offload: 0 },
+                stepTriggers: { minStepsForCompact: 0, minStepsForOffload: 100 },
+                hooks: { onStepReport },
+                tokenCounter: async messages => messages.length * 1000,
+            });
+            const messages = [
+                createMessage('1', 'user', 'One'),
+                createMessage('2', 'assistant', 'Two'),
+            ];
+            await processor.processInputStep?.(createMockArgs(20, messages));
+
+            const report = getLastReport();
+            expect(onStepReport).toHaveBeenCalledWith(report, expect.anything());
+            expect(report).toMatchObject({
+                stepNumber: 20,
+                modelId: 'anthropic/claude-sonnet-4-5',
+                processed: true,
+                estimatedTokens: 2000,
+                finalTokens: 1000,
+                changed: true,
+            });
+            expect(
+                report?.strategies.map(
+                    ({ strategy, status, reason, tokensBefore, tokensAfter }) => ({
+                        strategy,
+                        status,
+                        reason,
+                        tokensBefore,
+                        tokensAfter,
+                    })
+                )
+            ).toEqual([
+                {
+                    strategy: 'filter',
+                    status: 'applied',
+                    reason: undefined,
+                    tokensBefore: 2000,
+                    tokensAfter: 1000,
+                },
+                {
+                    strategy: 'compact',
+                    status: 'skipped',
+                    reason: 'no-result',
+                    tokensBefore: 1000,
+                    tokensAfter: 1000,
+                },
+                {
+                    strategy: 'summarize',
+                    status: 'skipped',
+                    reason: 'below-threshold',
+                    tokensBefore: 1000,
+                    tokensAfter: 1000,
+                },
+                {
+                    strategy: 'offload',
+                    status: 'skipped',
+                    reason: 'step-gate',
+                    tokensBefore: 1000,
+                    tokensAfter: 1000,
+                },
+            ]);
+            expect(report?.strategies.every(entry => entry.durationMs >= 0)).toBe(true);
+        });
+
+        it('should record hook vetoes, validation failures and errors', async () => {
+            const { processor, getLastReport } = createContextManager({
+                pipeline: ['filter', 'compact', 'summarize'],
+                handlers: {
+                    filter: async () => {
+                        throw new Error('boom');
+                    },
+                    compact: async () => [{ invalid: true }] as any,
+                    summarize: async (args: any) => args.messages,
+                },
+                thresholds: { filter: 0, compact: 0, summarize: 0 },
+                stepTriggers: { minStepsForCompact: 0, summarizeEvery: 1 },
+                retention: { keepRecent: 1 },
+                hooks: { shouldRunStrategy: strategy => strategy !== 'summarize' },
+                tokenCounter: async () => 1000,
+            });
+            await processor.processInputStep?.(
+                createMockArgs(1, [
+                    createMessage('1', 'user', 'One'),
+                    createMessage('2', 'user', 'Two'),
+                ])
+            );
+
+            const entries = getLastReport()?.strategies;
+            expect(entries?.[0]).toMatchObject({ reason: 'error', error: 'boom' });
+            expect(entries?.[1]).toMatchObject({ reason: 'validation-failed' });
+            expect(entries?.[1].error).toBeString();
+            expect(entries?.[2]).toMatchObject({ reason: 'hook-veto' });
+            expect(getLastReport()?.changed).toBe(false);
+        });
+
+        it('should report budget escalation', async () => {
+            const { processor, getLastReport } = createContextManager({
+                handlers: { filter: async (args: any) => args.messages.slice(-1) },
+                thresholds: { filter: 100000 },
+                budget: { targetTokens: 1000 },
+                tokenCounter: async messages => messages.length * 1000,
+            });
+            await processor.processInputStep?.(
+                createMockArgs(1, [
+                    createMessage('1', 'user', 'One'),
+                    createMessage('2', 'user', 'Two'),
+                ])
+            );
+
+            const report = getLastReport();
+            expect(report?.strategies.map(e => [e.pass, e.status, e.reason])).toEqual([
+                ['threshold', 'skipped', 'below-threshold'],
+                ['budget', 'applied', undefined],
+            ]);
+            expect(report?.budget).toEqual({ targetTokens: 1000, hardLimit: 1000, met: true });
+        });
+
+        it('should report steps skipped by beforeProcess', async () => {
+            const tokenCounter = mock(async () => 1000);
+            const { processor, getLastReport } = createContextManager({
+                hooks: { beforeProcess: () => false },
+                tokenCounter,
+            });
+            expect(getLastReport()).toBeUndefined();
+
+            await processor.processInputStep?.(createMockArgs(3, []));
+            expect(getLastReport()).toMatchObject({
+                stepNumber: 3,
+                processed: false,
+                strategies: [],
+            });
+            expect(tokenCounter).not.toHaveBeenCalled();
+        });
+
+        it('should not fail the step when onStepReport throws', async () => {
+            const { processor, getLastReport } = createContextManager({
+                handlers: { filter: async (args: any) => args.messages.slice(-1) },
+                thresholds: { filter: 0 },
+                hooks: {
+                    onStepReport: async () => {
+                        throw new Error('exporter down');
+                    },
+                },
+                tokenCounter: async messages => messages.length * 1000,
+            });
+
+            const result = await processor.processInputStep?.(
+                createMockArgs(1, [
+                    createMessage('1', 'user', 'One'),
+                    createMessage('2', 'assistant', 'Two'),
+                ])
+            );
+            expect(result?.messages?.map(m => m.id)).toEqual(['2']);
+            expect(getLastReport()?.changed).toBe(true);
+        });
+    });
+
+    describe('handler timeouts', () => {
+        it('should treat a timed-out handler as failed and pass a TimeoutError to onError', async () => {
+            const onError = mock(() => true);
+            let handlerSignal: AbortSignal | undefined;
+            const { processor, getLastReport } = createContextManager({
+                handlers: {
+                    filter: async (args: any) => [
+                        createMessage('1', 'user', 'filtered'),
+                        ...args.messages.slice(1),
+                    ],
+                    summarize: args => {
+                        handlerSignal = args.abortSignal;
+                        return new Promise<undefined>(() => {});
+                    },
+                },
+                thresholds: { filter: 1, summarize: 1 },
+                stepTriggers: { summarizeEvery: 1 },
+                retention: { keepRecent: 1, keepUserMessages: false },
+                timeoutMs: { summarize: 20 },
+                hooks: { onError },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(1, [
+                    createMessage('1', 'user', 'Hello'),
+                    createMessage('2', 'user', 'World'),
+                ])
+            );
+
+            // Earlier strategies are kept (checkpoint rollback)
+            expect(result?.messages[0].content).toEqual(stringToContentV2('filtered'));
+            const error = (onError.mock.calls[0] as unknown[])[0];
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(error).toMatchObject({ strategy: 'summarize', timeoutMs: 20 });
+            expect(handlerSignal?.aborted).toBe(true);
+            expect(handlerSignal?.reason).toBe(error);
+            expect(getLastReport()?.strategies[1]).toMatchObject({
+                strategy: 'summarize',
+                reason: 'timeout',
+            });
+        });
+
+        it('should not time out handlers that finish in time', async () => {
+            const { processor } = createContextManager({
+                handlers: { filter: async () => [createMessage('1', 'user', 'filtered')] },
+                thresholds: { filter: 1 },
+                timeoutMs: { filter: 1000 },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(1, [createMessage('1', 'user', 'Hello')])
+            );
+            expect(result?.messages).toHaveLength(1);
+        });
+
+        it('should chain the agent run abort signal into handler args', async () => {
+            const run = new AbortController();
+            const seen: boolean[] = [];
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: args => {
+                        seen.push(args.abortSignal.aborted);
+                        run.abort();
+                        seen.push(args.abortSignal.aborted);
+                        return undefined;
+                    },
+                },
+                thresholds: { filter: 1 },
+                tokenCounter: async () => 1000,
+            });
+            await processor.processInputStep?.({
+                ...createMockArgs(1, [createMessage('1', 'user', 'Hello')]),
+                abortSignal: run.signal,
+            });
+
+            expect(seen).toEqual([false, true]);
+        });
+
+        it('should not leave abort listeners on the run signal between steps', async () => {
+            const run = new AbortController();
+            const listeners = new Set<unknown>();
+            const add = run.signal.addEventListener.bind(run.signal);
+            const remove = run.signal.removeEventListener.bind(run.signal);
+            spyOn(run.signal, 'addEventListener').mockImplementation(((type, listener, options) => {
+                listeners.add(listener);
+                add(type, listener, options);
+            }) as AbortSignal['addEventListener']);
+            spyOn(run.signal, 'removeEventListener').mockImplementation(((type, listener) => {
+                listeners.delete(listener);
+                remove(type, listener);
+            }) as AbortSignal['removeEventListener']);
+
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: async () => undefined,
+                    compact: async () => undefined,
+                },
+                thresholds: { filter: 1, compact: 1 },
+                tokenCounter: async () => 1000,
+            });
+            for (let step = 1; step <= 20; step++) {
+                await processor.processInputStep?.({
+                    ...createMockArgs(step, [createMessage('1', 'user', 'Hello')]),
+                    abortSignal: run.signal,
+                });
+            }
+
+            expect(run.signal.addEventListener).toHaveBeenCalled();
+            expect(listeners.size).toBe(0);
+        });
+
+        it('should pass an already aborted run signal on with its reason', async () => {
+            const run = new AbortController();
+            run.abort(new Error('run cancelled'));
+            let handlerSignal: AbortSignal | undefined;
+            const { processor } = createContextManager({
+                handlers: {
+                    filter: args => {
+                        handlerSignal = args.abortSignal;
+                        return undefined;
+                    },
+                },
+                thresholds: { filter: 1 },
+                tokenCounter: async () => 1000,
+            });
+            await processor.processInputStep?.({
+                ...createMockArgs(1, [createMessage('1', 'user', 'Hello')]),
+                abortSignal: run.signal,
+            });
+
+            expect(handlerSignal?.aborted).toBe(true);
+            expect(handlerSignal?.reason).toEqual(new Error('run cancelled'));
+        });
+    });
+
+    describe('handler chains', () => {
+        const hello = () => createMockArgs(1, [createMessage('1', 'user', 'Hello')]);
+
+        it('should fall back to the next handler when one throws', async () => {
+            const onError = mock(() => true);
+            const afterModify = mock((_args: any, messages: MastraDBMessage[]) => messages);
+            const { processor, getLastReport } = createContextManager({
+                handlers: {
+                    filter: [
+                        async () => {
+                            throw new Error('llm unavailable');
+                        },
+                        async () => [createMessage('1', 'user', 'extractive')],
+                    ],
+                },
+                thresholds: { filter: 1 },
+                hooks: { onError, afterModify },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(hello());
+
+            expect(result?.messages[0].content).toEqual(stringToContentV2('extractive'));
+            expect(onError).toHaveBeenCalledTimes(1);
+            expect(onError).toHaveBeenCalledWith(
+                expect.any(Error),
+                'filter',
+                expect.anything(),
+                { policy: 'checkpoint', restoredTo: undefined, aborted: false },
+                { index: 0, count: 2, attempt: 1 }
+            );
+            expect(afterModify.mock.calls[0][3]).toEqual({ index: 1, count: 2, attempt: 1 });
+            expect(getLastReport()?.strategies[0].handler).toEqual({
+                index: 1,
+                count: 2,
+                attempt: 1,
+            });
+        });
+
+        it('should fall back on undefined, invalid results and timeouts', async () => {
+            const onValidationError = mock(() => true);
+            const { processor } = createContextManager({
+                handlers: {
+                    summarize: [
+                        () => new Promise<undefined>(() => {}),
+                        async () => undefined,
+                        async () => [{ invalid: true }] as any,
+                        async ({ recentMessages }) => recentMessages,
+                    ],
+                },
+                thresholds: { summarize: 1 },
+                stepTriggers: { summarizeEvery: 1 },
+                retention: { keepRecent: 1, keepUserMessages: false },
+                timeoutMs: { summarize: 10 },
+                hooks: { onValidationError },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(
+                createMockArgs(1, [
+                    createMessage('1', 'user', 'Old'),
+                    createMessage('2', 'user', 'Recent'),
+                ])
+            );
+
+            expect(result?.messages.map(m => m.id)).toEqual(['2']);
+            expect(onValidationError).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry throwing handlers with backoff before falling back', async () => {
+            const primary = mock(async () => {
+                throw new Error('rate limited');
+            });
+            const fallback = mock(async () => [createMessage('1', 'user', 'truncated')]);
+            const onError = mock(() => true);
+            const { processor } = createContextManager({
+                handlers: { filter: [primary, fallback] },
+                thresholds: { filter: 1 },
+                retry: { filter: { attempts: 3, backoffMs: 5, backoffFactor: 2 } },
+                hooks: { onError },
+                tokenCounter: async () => 1000,
+            });
+            const startedAt = performance.now();
+            await processor.processInputStep?.(hello());
+
+            expect(primary).toHaveBeenCalledTimes(3);
+            expect(fallback).toHaveBeenCalledTimes(1);
+            // 5ms + 10ms of backoff between the three attempts
+            expect(performance.now() - startedAt).toBeGreaterThanOrEqual(14);
+            expect(onError.mock.calls.map(call => (call as unknown[])[4])).toEqual([
+                { index: 0, count: 2, attempt: 1 },
+                { index: 0, count: 2, attempt: 2 },
+                { index: 0, count: 2, attempt: 3 },
+            ]);
+        });
+
+        it('should roll back once when every handler in the chain fails', async () => {
+            const onError = mock(() => true);
+            const { processor, getLastReport } = createContextManager({
+                rollback: 'all-or-nothing',
+                handlers: {
+                    filter: [
+                        async () => {
+                            throw new Error('first');
+                        },
+                        async () => {
+                            throw new Error('second');
+                        },
+                    ],
+                },
+                thresholds: { filter: 1 },
+                hooks: { onError },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(hello());
+
+            expect(result).toBeUndefined();
+            expect(onError.mock.calls.map(call => (call as unknown[])[3])).toEqual([
+                { policy: 'all-or-nothing', restoredTo: undefined, aborted: false },
+                { policy: 'all-or-nothing', restoredTo: undefined, aborted: true },
+            ]);
+            expect(getLastReport()?.strategies[0]).toMatchObject({
+                reason: 'error',
+                error: 'second',
+                handler: { index: 1, count: 2, attempt: 1 },
+            });
+        });
+    });
+
+    describe('integrity checks', () => {
+        const createToolCall = (id: string, toolCallId: string): MastraDBMessage => ({
+            id,
+            role: 'assistant',
+            content: {
+                format: 2,
+                parts: [
+                    {
+                        type: 'tool-invocation',
+                        toolInvocation: { state: 'call', toolCallId, toolName: 'search', args: {} },
+                    },
+                ],
+            },
+            createdAt: new Date(),
+        });
+        const createToolResult = (id: string, toolCallId: string): MastraDBMessage => ({
+            id,
+            role: 'assistant',
+            content: {
+                format: 2,
+                parts: [
+                    {
+                        type: 'tool-invocation',
+                        toolInvocation: {
+                            state: 'result',
+                            toolCallId,
+                            toolName: 'search',
+                            args: {},
+                            result: 'found',
+                        },
+                    },
+                ],
+            },
+            createdAt: new Date(),
+        });
+        const conversation = () => [
+            createMessage('1', 'user', 'Search'),
+            createToolCall('2', 'call-1'),
+            createToolResult('3', 'call-1'),
+        ];
+        // Drops the tool result, leaving its call orphaned
+        const dropLast = async (args: any) => args.messages.slice(0, -1);
+
+        it('should reject results that orphan a tool call in check mode', async () => {
+            const onValidationError = mock(() => true);
+            const { processor } = createContextManager({
+                handlers: { filter: [dropLast, async (args: any) => args.messages.slice(0, 1)] },
+                thresholds: { filter: 1 },
+                integrity: { mode: 'check' },
+                hooks: { onValidationError },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(createMockArgs(1, conversation()));
+
+            expect(onValidationError).toHaveBeenCalledWith(
+                'filter',
+                expect.anything(),
+                expect.stringContaining('call-1'),
+                [{ path: [1], code: 'custom', message: expect.stringContaining('call-1') }]
+            );
+            // Fell back to the next handler in the chain
+            expect(result?.messages.map(m => m.id)).toEqual(['1']);
+        });
+
+        it('should not reject problems already present in the input', async () => {
+            const { processor } = createContextManager({
+                handlers: { filter: async (args: any) => args.messages.slice(1) },
+                thresholds: { filter: 1 },
+                integrity: { mode: 'check' },
+                tokenCounter: async () => 1000,
+            });
+            const messages = [
+                createMessage('0', 'user', 'Hi'),
+                createToolCall('1', 'call-1'),
+                createMessage('2', 'user', 'Next'),
+            ];
+            const result = await processor.processInputStep?.(createMockArgs(1, messages));
+            // The orphaned call was in the input - only the leading assistant turn is new
+            expect(result).toBeUndefined();
+
+            const { processor: lenient } = createContextManager({
+                handlers: { filter: async (args: any) => args.messages.slice(0, 2) },
+                thresholds: { filter: 1 },
+                integrity: { mode: 'check' },
+                tokenCounter: async () => 1000,
+            });
+            const kept = await lenient.processInputStep?.(createMockArgs(1, messages));
+            expect(kept?.messages).toHaveLength(2);
+        });
+
+        it('should repair results and report the fixes', async () => {
+            const onIntegrityRepair = mock(() => {});
+            const { processor, getLastReport } = createContextManager({
+                handlers: { filter: dropLast },
+                thresholds: { filter: 1 },
+                integrity: { mode: 'repair' },
+                hooks: { onIntegrityRepair },
+                tokenCounter: async () => 1000,
+            });
+            const result = await processor.processInputStep?.(createMockArgs(1, conversation()));
+
+            expect((result?.messages[1].content.parts[0] as any).toolInvocation.state).toBe(
+                'result'
+            );
+            expect(onIntegrityRepair).toHaveBeenCalledWith(
+                'filter',
+                [expect.objectContaining({ type: 'orphaned-tool-call', toolCallId: 'call-1' })],
+                expect.anything()
+            );
+            expect(getLastReport()?.strategies[0].repairs).toHaveLength(1);
+        });
     });
 
     describe('strategy enable/disable', () => {
@@ -29,45 +29,114 @@ import type {
 import type { MastraDBMessage } from '@mastra/core/agent/message-list';
 import type {
     ContextManagerConfig,
-    ContextStrategyHandlers,
-    ContextManagerHooks,
+    ContextStrategy,
+    HandlerInfo,
+    ResolvedContextManagerConfig,
+    RetryConfig,
+    StepReport,
+    StrategyContext,
+    StrategyHandler,
+    StrategyName,
+    StrategyReportEntry,
+    StrategySkipReason,
+    ThresholdValue,
 } from './types.js';
 import { DEFAULT_CONFIG } from './types.js';
-import { shouldKeepMessage } from './utils.js';
-import { validateMessages, getValidationError } from './validation.js';
+import { getModelId } from './utils.js';
+import {
+    getValidationIssues,
+    formatValidationIssue,
+    checkMessageIntegrity,
+    repairMessageIntegrity,
+} from './validation.js';
+import type { IntegrityIssue, ValidationIssue } from './validation.js';
+import { resolveThreshold } from './limits.js';
+import { defaultShouldTrigger, resolvePipeline } from './pipeline.js';
+import { TimeoutError } from './errors.js';
+import { createRetriever } from './retrieval.js';
+import { restoreContextMessages, routeContextMessages } from './context-messages.js';
+
+/**
+ * Identifies an integrity issue across message lists
+ */
+const issueKey = (issue: IntegrityIssue) =>
+    `${issue.type}:${issue.messageId}:${issue.toolCallId ?? ''}`;
+
+/**
+ * Report an integrity problem as a validation issue on the message it concerns
+ * (the later copy for duplicate ids)
+ */
+const toValidationIssue = (issue: IntegrityIssue, messages: MastraDBMessage[]): ValidationIssue => {
+    const ids = messages.map(msg => msg.id);
+    const index =
+        issue.type === 'duplicate-id'
+            ? ids.lastIndexOf(issue.messageId)
+            : ids.indexOf(issue.messageId);
+    return { path: [index], code: 'custom', message: issue.message };
+};
 
 /**
  * Creates a context manager orchestrator processor
  */
-export function createContextManager(config: ContextManagerConfig = {}): {
+export function createContextManager<const TCustom extends string = never>(
+    config: ContextManagerConfig<TCustom> = {}
+): {
     processor: Processor<'context-manager'> & {
         processInputStep: (
             args: ProcessInputStepArgs
         ) => Promise<ProcessInputStepResult | undefined>;
     };
-    config: Required<Omit<ContextManagerConfig, 'handlers' | 'hooks'>> & {
-        handlers: ContextStrategyHandlers;
-        hooks: ContextManagerHooks;
-    };
+    config: ResolvedContextManagerConfig<TCustom>;
+    getLastReport: () => StepReport<StrategyName | TCustom> | undefined;
 } {
+    type Name = StrategyName | TCustom;
+
     // Merge with defaults
-    const mergedConfig: Required<
-        Omit<ContextManagerConfig, 'handlers' | 'hooks' | 'tokenCounter'>
-    > & {
-        handlers: ContextStrategyHandlers;
-        hooks: ContextManagerHooks;
-        tokenCounter: (messages: MastraDBMessage[], model?: string) => number | Promise<number>;
-    } = {
-        thresholds: { ...DEFAULT_CONFIG.thresholds, ...config.thresholds },
+    const mergedConfig: ResolvedContextManagerConfig<TCustom> = {
+        thresholds: { ...DEFAULT_CONFIG.thresholds, ...config.thresholds } as Record<
+            Name,
+            ThresholdValue
+        >,
+        pipeline: config.pipeline ?? DEFAULT_CONFIG.pipeline,
+        contextWindow: config.contextWindow ?? DEFAULT_CONFIG.contextWindow,
         stepTriggers: { ...DEFAULT_CONFIG.stepTriggers, ...config.stepTriggers },
         retention: { ...DEFAULT_CONFIG.retention, ...config.retention },
         handlers: { ...DEFAULT_CONFIG.handlers, ...config.handlers },
-        hooks: { ...DEFAULT_CONFIG.hooks, ...config.hooks },
-        strategies: { ...DEFAULT_CONFIG.strategies, ...config.strategies },
+        hooks: { ...config.hooks },
+        strategies: { ...DEFAULT_CONFIG.strategies, ...config.strategies } as Record<Name, boolean>,
         tokenCounter: config.tokenCounter || DEFAULT_CONFIG.tokenCounter,
         validateHandlers: config.validateHandlers ?? DEFAULT_CONFIG.validateHandlers,
+        recountBetweenStrategies:
+            config.recountBetweenStrategies ?? DEFAULT_CONFIG.recountBetweenStrategies,
+        budget: config.budget,
+        rollback: config.rollback ?? DEFAULT_CONFIG.rollback,
+        timeoutMs: { ...config.timeoutMs } as Record<Name, number>,
+        retry: { ...config.retry } as Record<Name, RetryConfig>,
+        integrity: config.integrity,
+        scorer: config.scorer,
+        toolPolicies: { ...config.toolPolicies },
+        retrieval: config.retrieval,
     };
 
+    // Fail fast on malformed percentage thresholds instead of on the first step
+    for (const value of [
+        ...Object.values<ThresholdValue | undefined>(mergedConfig.thresholds),
+        mergedConfig.budget?.targetTokens,
+        mergedConfig.budget?.hardLimit,
+    ]) {
+        if (value !== undefined) {
+            resolveThreshold(value, 0);
+        }
+    }
+
+    // Resolved once - also rejects unknown and duplicate strategy names
+    const pipeline = resolvePipeline(mergedConfig);
+
+    const retriever = mergedConfig.retrieval && createRetriever(mergedConfig.retrieval);
+
+    // Report from the most recently completed step
+    let lastReport: StepReport<Name> | undefined;
+
     const processor = {
         id: 'context-manager',
         name: 'Context Manager Orchestrator',
@@ -75,18 +144,48 @@ export function createContextManager(config: ContextManagerConfig = {}): {
         processInputStep: async (
             args: ProcessInputStepArgs
         ): Promise<ProcessInputStepResult | undefined> => {
-            const { messages, stepNumber, model } = args;
+            const { stepNumber, model } = args;
+            // System messages added by earlier steps are handed back to the strategies
+            const { messages, systemMessages } = restoreContextMessages(args);
+            const stepStartedAt = performance.now();
             const {
-                handlers,
                 hooks,
-                thresholds,
-                stepTriggers,
-                strategies,
-                retention,
+                thresholds: thresholdConfig,
+                contextWindow,
                 tokenCounter,
                 validateHandlers,
+                recountBetweenStrategies,
+                budget,
+                rollback,
+                timeoutMs: timeouts,
+                retry: retries,
+                integrity,
             } = mergedConfig;
 
+            const modelId = getModelId(model);
+            const report: StepReport<Name> = {
+                stepNumber,
+                modelId,
+                processed: false,
+                estimatedTokens: 0,
+                finalTokens: 0,
+                changed: false,
+                startedAt: Date.now(),
+                durationMs: 0,
+                strategies: [],
+            };
+            const publishReport = async () => {
+                report.durationMs = performance.now() - stepStartedAt;
+                lastReport = report;
+                if (hooks.onStepReport) {
+                    try {
+                        await hooks.onStepReport(report, args);
+                    } catch {
+                        // Reporting only observes the step - a failing reporter must not fail it
+                    }
+                }
+            };
+
             // Keep original messages safe for rollback (used implicitly for rollback)
 
             // Lifecycle hook: beforeProcess
@@ -94,289 +193,496 @@ export function createContextManager(config: ContextManagerConfig = {}): {
                 try {
                     const shouldContinue = await hooks.beforeProcess(args);
                     if (!shouldContinue) {
+                        await publishReport();
                         return undefined;
                     }
                 } catch (error) {
-                    // If beforeProcess throws, abort gracefully
+                    // If beforeProcess throws, skip the step gracefully
                     if (hooks.onError) {
-                        const shouldContinue = await hooks.onError(error as Error, 'filter', args);
-                        if (!shouldContinue) {
-                            return undefined;
-                        }
+                        await hooks.onError(error as Error, 'filter', args, {
+                            policy: rollback,
+                            aborted: true,
+                        });
                     }
+                    await publishReport();
                     return undefined;
                 }
             }
 
             // Calculate current context size using configured token counter
-            const estimatedTokens = await tokenCounter(
-                messages,
-                typeof model === 'string' ? model : undefined
-            );
+            const estimatedTokens = await tokenCounter(messages, modelId);
+            report.processed = true;
+            report.estimatedTokens = estimatedTokens;
+
+            // Resolve percentage thresholds against this step's model context window
+            const windowSize =
+                typeof contextWindow === 'number' ? contextWindow : contextWindow(modelId);
+            const thresholds = new Map<Name, number>();
+            for (const [name, value] of Object.entries<ThresholdValue | undefined>(
+                thresholdConfig
+            )) {
+                if (value !== undefined) {
+                    thresholds.set(name as Name, resolveThreshold(value, windowSize));
+                }
+            }
 
             let modifiedMessages = messages;
             let hasChanges = false;
 
+            // Output of the last successful strategy - failures roll back to it
+            let checkpoint: { messages: MastraDBMessage[]; strategy?: Name } = { messages };
+            let aborted = false;
+
+            // Size of the current messages - recounted after each successful strategy so later
+            // strategies are gated on what is actually left (unless recounting is disabled)
+            // Budget mode needs real sizes, so it forces recounting even when disabled
+            let currentTokens = estimatedTokens;
+            let forceRecount = false;
+            const recount = async () => {
+                currentTokens =
+                    recountBetweenStrategies || forceRecount
+                        ? await tokenCounter(modifiedMessages, modelId)
+                        : estimatedTokens;
+            };
+
+            /**
+             * Call one handler with this strategy's timeout and abort signal
+             */
+            const invokeHandler = async (
+                strategy: Name,
+                handler: StrategyHandler,
+                context: StrategyContext
+            ): Promise<MastraDBMessage[] | undefined> => {
+                const timeoutMs = timeouts[strategy];
+                const controller = new AbortController();
+                // Chained to the agent run's signal so handlers see either cancellation
+                // (by hand - AbortSignal.any needs Node 18.17+ / 20.3+)
+                const runSignal = args.abortSignal;
+                const onAbort = () => controller.abort(runSignal?.reason);
+                if (runSignal?.aborted) {
+                    onAbort();
+                } else {
+                    runSignal?.addEventListener('abort', onAbort, { once: true });
+                }
+                const abortSignal = controller.signal;
+                let timer: ReturnType<typeof setTimeout> | undefined;
+
+                try {
+                    const pending = Promise.resolve(
+                        handler(
+                            {
+                                ...args,
+                                messages: modifiedMessages,
+                                estimatedTokens,
+                                tokensBeforeStrategy: context.tokensBeforeStrategy,
+                                abortSignal,
+                            },
+                            context
+                        )
+                    );
+                    return timeoutMs === undefined
+                        ? await pending
+                        : await Promise.race([
+                              pending,
+                              new Promise<never>((_, reject) => {
+                                  timer = setTimeout(() => {
+                                      const error = new TimeoutError(strategy, timeoutMs);
+                                      controller.abort(error);
+                                      reject(error);
+                                  }, timeoutMs);
+                              }),
+                          ]);
+                } finally {
+                    clearTimeout(timer);
+                    // The run signal outlives this call - don't leave a listener per handler
+                    runSignal?.removeEventListener('abort', onAbort);
+                }
+            };
+
             /**
              * Safe handler execution wrapper
+             * Runs the strategy's handler chain in order, retrying throws and timeouts with
+             * backoff, and falls through to the next handler until one returns valid messages
              */
             const executeHandler = async (
-                strategy: 'filter' | 'compact' | 'summarize' | 'offload',
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                handler: (
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    args: any
-                ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined,
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                handlerArgs: any
-            ): Promise<MastraDBMessage[] | null> => {
-                try {
-                    const result = await handler(handlerArgs);
+                strategy: ContextStrategy<Name>,
+                context: StrategyContext
+            ): Promise<
+                | { messages: MastraDBMessage[]; handler: HandlerInfo; repairs: IntegrityIssue[] }
+                | { reason: StrategySkipReason; error?: string; handler?: HandlerInfo }
+            > => {
+                const chain = Array.isArray(strategy.handler)
+                    ? strategy.handler
+                    : [strategy.handler];
+                const {
+                    attempts = 1,
+                    backoffMs = 0,
+                    backoffFactor = 2,
+                    maxBackoffMs = Infinity,
+                } = retries[strategy.name] ?? {};
+                let failure: { reason: StrategySkipReason; error?: string; handler?: HandlerInfo } =
+                    { reason: 'no-result' };
+
+                for (const [index, handler] of chain.entries()) {
+                    for (let attempt = 1; attempt <= attempts; attempt++) {
+                        const info: HandlerInfo = { index, count: chain.length, attempt };
+
+                        try {
+                            const result = await invokeHandler(strategy.name, handler, context);
+
+                            // Handler returned undefined - fall through to the next handler
+                            if (result === undefined) {
+                                failure = { reason: 'no-result', handler: info };
+                                break;
+                            }
 
-                    // Handler returned undefined - skip strategy
-                    if (result === undefined) {
-                        return null;
-                    }
+                            // Validate result if validation is enabled
+                            const issues = validateHandlers ? getValidationIssues(result) : [];
+                            if (issues.length > 0) {
+                                const errorMsg = issues.map(formatValidationIssue).join('; ');
+                                if (hooks.onValidationError) {
+                                    await hooks.onValidationError(
+                                        strategy.name,
+                                        args,
+                                        errorMsg,
+                                        issues
+                                    );
+                                }
+                                // Never use invalid messages - fall through to the next handler
+                                failure = {
+                                    reason: 'validation-failed',
+                                    error: errorMsg,
+                                    handler: info,
+                                };
+                                break;
+                            }
 
-                    // Validate result if validation is enabled
-                    if (validateHandlers) {
-                        if (!validateMessages(result)) {
-                            const errorMsg = getValidationError(result);
-                            if (hooks.onValidationError) {
-                                const shouldContinue = await hooks.onValidationError(
-                                    strategy,
-                                    args,
-                                    errorMsg || 'Invalid handler return'
+                            if (integrity?.mode === 'repair') {
+                                const { messages: repaired, fixed } = repairMessageIntegrity(
+                                    result,
+                                    integrity
+                                );
+                                return { messages: repaired, handler: info, repairs: fixed };
+                            }
+                            if (integrity?.mode === 'check') {
+                                // Only flag problems the handler introduced
+                                const existing = new Set(
+                                    checkMessageIntegrity(modifiedMessages).map(issueKey)
+                                );
+                                const introduced = checkMessageIntegrity(result).filter(
+                                    issue => !existing.has(issueKey(issue))
                                 );
-                                if (!shouldContinue) {
-                                    return null; // Skip strategy on validation error
+                                if (introduced.length > 0) {
+                                    const errorMsg = introduced.map(i => i.message).join('; ');
+                                    if (hooks.onValidationError) {
+                                        await hooks.onValidationError(
+                                            strategy.name,
+                                            args,
+                                            errorMsg,
+                                            introduced.map(issue =>
+                                                toValidationIssue(issue, result)
+                                            )
+                                        );
+                                    }
+                                    failure = {
+                                        reason: 'validation-failed',
+                                        error: errorMsg,
+                                        handler: info,
+                                    };
+                                    break;
                                 }
                             }
-                            // If no hook or hook says continue, use original messages
-                            return null;
-                        }
-                    }
 
-                    return result;
-                } catch (error) {
-                    // Handler threw - use error hook if available
-                    if (hooks.onError) {
-                        const shouldContinue = await hooks.onError(error as Error, strategy, args);
-                        if (!shouldContinue) {
-                            // Hook says abort - return null to skip strategy
-                            return null;
+                            return { messages: result, handler: info, repairs: [] };
+                        } catch (error) {
+                            failure = {
+                                reason: error instanceof TimeoutError ? 'timeout' : 'error',
+                                error: (error as Error).message,
+                                handler: info,
+                            };
+
+                            // Last attempt of the last handler - roll back per policy
+                            if (index === chain.length - 1 && attempt === attempts) {
+                                await rollbackOnError(strategy.name, error as Error, info);
+                                return failure;
+                            }
+
+                            // Recoverable - messages are still at the current checkpoint
+                            if (hooks.onError) {
+                                await hooks.onError(
+                                    error as Error,
+                                    strategy.name,
+                                    args,
+                                    { policy: rollback, restoredTo: checkpoint.strategy, aborted },
+                                    info
+                                );
+                            }
+                            if (attempt < attempts) {
+                                const delay = Math.min(
+                                    backoffMs * backoffFactor ** (attempt - 1),
+                                    maxBackoffMs
+                                );
+                                await new Promise(resolve => setTimeout(resolve, delay));
+                            }
                         }
                     }
-                    // If no hook or hook says continue, skip strategy (use original messages)
-                    return null;
                 }
+
+                return failure;
             };
 
-            // Strategy 1: Filter
-            if (
-                strategies.filter &&
-                handlers.filter &&
-                estimatedTokens > (thresholds.filter ?? 0)
-            ) {
-                const shouldRun = hooks.shouldRunStrategy
-                    ? await hooks.shouldRunStrategy('filter', args, estimatedTokens)
-                    : true;
+            /**
+             * Roll back after a failed strategy and report the policy to onError
+             * checkpoint: continue from the last successful strategy's output
+             * all-or-nothing: restore the original messages and skip the remaining strategies
+             */
+            const rollbackOnError = async (strategy: Name, error: Error, handler: HandlerInfo) => {
+                if (rollback === 'all-or-nothing') {
+                    checkpoint = { messages };
+                    aborted = true;
+                }
+                modifiedMessages = checkpoint.messages;
+                hasChanges = checkpoint.strategy !== undefined;
+
+                if (hooks.onError) {
+                    await hooks.onError(
+                        error,
+                        strategy,
+                        args,
+                        { policy: rollback, restoredTo: checkpoint.strategy, aborted },
+                        handler
+                    );
+                }
+            };
 
-                if (shouldRun) {
-                    const filtered = await executeHandler('filter', handlers.filter, {
-                        ...args,
-                        estimatedTokens,
-                    });
-                    if (filtered) {
-                        modifiedMessages = filtered;
-                        hasChanges = true;
+            /**
+             * Apply a successful handler result, run afterModify and recount
+             * Returns the afterModify error message when the result was rolled back
+             */
+            const applyResult = async (
+                strategy: Name,
+                result: MastraDBMessage[],
+                handler: HandlerInfo
+            ): Promise<string | undefined> => {
+                let rollbackError: string | undefined;
+                modifiedMessages = result;
+                hasChanges = true;
 
-                        if (hooks.afterModify) {
-                            try {
-                                modifiedMessages = await hooks.afterModify(
-                                    args,
-                                    modifiedMessages,
-                                    'filter'
-                                );
-                            } catch (error) {
-                                // If afterModify throws, rollback to previous state
-                                if (hooks.onError) {
-                                    await hooks.onError(error as Error, 'filter', args);
-                                }
-                                modifiedMessages = messages; // Rollback
-                                hasChanges = false; // Mark as no changes since we rolled back
-                            }
-                        }
+                try {
+                    if (hooks.afterModify) {
+                        modifiedMessages = await hooks.afterModify(
+                            args,
+                            modifiedMessages,
+                            strategy,
+                            handler
+                        );
                     }
+                    checkpoint = { messages: modifiedMessages, strategy };
+                } catch (error) {
+                    // If afterModify throws, roll back per policy
+                    await rollbackOnError(strategy, error as Error, handler);
+                    rollbackError = (error as Error).message;
                 }
-            }
 
-            // Strategy 2: Compact
-            if (
-                strategies.compact &&
-                handlers.compact &&
-                stepNumber >= (stepTriggers.minStepsForCompact ?? 5) &&
-                estimatedTokens > (thresholds.compact ?? 0)
-            ) {
-                const shouldRun = hooks.shouldRunStrategy
-                    ? await hooks.shouldRunStrategy('compact', args, estimatedTokens)
-                    : true;
+                await recount();
+                return rollbackError;
+            };
 
-                if (shouldRun) {
-                    const compacted = await executeHandler('compact', handlers.compact, {
-                        ...args,
-                        messages: modifiedMessages,
-                        estimatedTokens,
+            /**
+             * Run one strategy against the current messages and record it in the step report
+             * Returns true when the strategy's handler was invoked
+             */
+            const runStrategy = async (
+                strategy: ContextStrategy<Name>,
+                options: { pass: 'threshold' | 'budget' }
+            ): Promise<boolean> => {
+                const startedAt = Date.now();
+                const startedAtMark = performance.now();
+                const tokensBefore = currentTokens;
+                const record = (
+                    entry: Pick<
+                        StrategyReportEntry<Name>,
+                        'status' | 'reason' | 'error' | 'handler' | 'repairs'
+                    >
+                ) => {
+                    report.strategies.push({
+                        strategy: strategy.name,
+                        pass: options.pass,
+                        ...entry,
+                        tokensBefore,
+                        tokensAfter: currentTokens,
+                        startedAt,
+                        durationMs: performance.now() - startedAtMark,
                     });
-                    if (compacted) {
-                        modifiedMessages = compacted;
-                        hasChanges = true;
-
-                        if (hooks.afterModify) {
-                            try {
-                                modifiedMessages = await hooks.afterModify(
-                                    args,
-                                    modifiedMessages,
-                                    'compact'
-                                );
-                            } catch (error) {
-                                if (hooks.onError) {
-                                    await hooks.onError(error as Error, 'compact', args);
-                                }
-                                modifiedMessages = messages; // Rollback
-                                hasChanges = false; // Mark as no changes since we rolled back
-                            }
-                        }
-                    }
+                };
+
+                const context: StrategyContext = {
+                    args,
+                    stepNumber,
+                    estimatedTokens,
+                    tokensBeforeStrategy: currentTokens,
+                    threshold: thresholds.get(strategy.name),
+                };
+                const shouldTrigger = strategy.shouldTrigger ?? defaultShouldTrigger;
+                if (options.pass === 'threshold' && !(await shouldTrigger(context))) {
+                    const belowThreshold =
+                        context.threshold !== undefined && currentTokens <= context.threshold;
+                    record({
+                        status: 'skipped',
+                        reason: belowThreshold ? 'below-threshold' : 'step-gate',
+                    });
+                    return false;
                 }
-            }
 
-            // Strategy 3: Summarize
-            const summarizeEvery = stepTriggers.summarizeEvery ?? 20;
-            if (
-                strategies.summarize &&
-                handlers.summarize &&
-                stepNumber >= summarizeEvery &&
-                stepNumber % summarizeEvery === 0 &&
-                estimatedTokens > (thresholds.summarize ?? 0)
-            ) {
                 const shouldRun = hooks.shouldRunStrategy
-                    ? await hooks.shouldRunStrategy('summarize', args, estimatedTokens)
+                    ? await hooks.shouldRunStrategy(strategy.name, args, currentTokens)
                     : true;
+                if (!shouldRun) {
+                    record({ status: 'skipped', reason: 'hook-veto' });
+                    return false;
+                }
 
-                if (shouldRun) {
-                    const keepCount = retention.keepRecent || 5;
-                    const recentMessages = modifiedMessages.slice(-keepCount);
-                    const oldMessages = modifiedMessages.slice(0, -keepCount);
+                const outcome = await executeHandler(strategy, context);
+                if ('reason' in outcome) {
+                    record({ status: 'skipped', ...outcome });
+                    return true;
+                }
 
-                    if (oldMessages.length > 0) {
-                        const summarized = await executeHandler('summarize', handlers.summarize, {
-                            ...args,
-                            messages: modifiedMessages,
-                            estimatedTokens,
-                            oldMessages,
-                            recentMessages,
-                        });
+                if (outcome.repairs.length > 0 && hooks.onIntegrityRepair) {
+                    await hooks.onIntegrityRepair(strategy.name, outcome.repairs, args);
+                }
 
-                        if (summarized) {
-                            modifiedMessages = summarized;
-                            hasChanges = true;
+                const rollbackError = await applyResult(
+                    strategy.name,
+                    outcome.messages,
+                    outcome.handler
+                );
+                record(
+                    rollbackError === undefined
+                        ? { status: 'applied', handler: outcome.handler, repairs: outcome.repairs }
+                        : {
+                              status: 'skipped',
+                              reason: 'rolled-back',
+                              error: rollbackError,
+                              handler: outcome.handler,
+                          }
+                );
+                return true;
+            };
 
-                            if (hooks.afterModify) {
-                                try {
-                                    modifiedMessages = await hooks.afterModify(
-                                        args,
-                                        modifiedMessages,
-                                        'summarize'
-                                    );
-                                } catch (error) {
-                                    if (hooks.onError) {
-                                        await hooks.onError(error as Error, 'summarize', args);
-                                    }
-                                    modifiedMessages = messages; // Rollback
-                                    hasChanges = false; // Mark as no changes since we rolled back
-                                }
-                            }
-                        }
-                    }
+            // Threshold pass, in pipeline order
+            const attempted = new Set<Name>();
+            for (const strategy of pipeline) {
+                if (aborted) {
+                    break;
+                }
+                if (await runStrategy(strategy, { pass: 'threshold' })) {
+                    attempted.add(strategy.name);
                 }
             }
 
-            // Strategy 4: Offload
-            if (
-                strategies.offload &&
-                handlers.offload &&
-                stepNumber >= (stepTriggers.minStepsForOffload ?? 10) &&
-                estimatedTokens > (thresholds.offload ?? 50000)
-            ) {
-                const shouldRun = hooks.shouldRunStrategy
-                    ? await hooks.shouldRunStrategy('offload', args, estimatedTokens)
-                    : true;
+            // Budget mode: escalate through strategies until the context fits the target
+            if (budget && !aborted) {
+                const targetTokens = resolveThreshold(budget.targetTokens, windowSize);
+                const hardLimit = resolveThreshold(
+                    budget.hardLimit ?? budget.targetTokens,
+                    windowSize
+                );
+                const escalation = budget.order
+                    ? budget.order.flatMap(name => pipeline.filter(s => s.name === name))
+                    : pipeline;
+
+                forceRecount = true;
+                await recount();
+
+                for (const strategy of escalation) {
+                    if (currentTokens <= targetTokens || aborted) {
+                        break;
+                    }
+                    if (attempted.has(strategy.name)) {
+                        continue;
+                    }
+                    if (await runStrategy(strategy, { pass: 'budget' })) {
+                        attempted.add(strategy.name);
+                    }
+                }
 
-                if (shouldRun) {
-                    // Determine which messages to offload vs keep
-                    const messagesToOffload: MastraDBMessage[] = [];
-                    const messagesToKeep: MastraDBMessage[] = [];
-
-                    modifiedMessages.forEach((msg, idx) => {
-                        if (
-                            shouldKeepMessage(msg, idx, modifiedMessages.length, {
-                                keepRecent: retention.keepRecent,
-                                keepUserMessages: retention.keepUserMessages,
-                                keepSystemMessages: retention.keepSystemMessages,
-                            })
-                        ) {
-                            messagesToKeep.push(msg);
-                        } else {
-                            messagesToOffload.push(msg);
-                        }
-                    });
+                report.budget = { targetTokens, hardLimit, met: currentTokens <= targetTokens };
 
-                    if (messagesToOffload.length > 0) {
-                        const offloaded = await executeHandler('offload', handlers.offload, {
-                            ...args,
-                            messages: modifiedMessages,
+                if (currentTokens > hardLimit && hooks.onBudgetNotMet) {
+                    await hooks.onBudgetNotMet(
+                        {
+                            targetTokens,
+                            hardLimit,
                             estimatedTokens,
-                            messagesToOffload,
-                            messagesToKeep,
-                        });
-
-                        if (offloaded) {
-                            modifiedMessages = offloaded;
-                            hasChanges = true;
+                            finalTokens: currentTokens,
+                            attemptedStrategies: [...attempted],
+                        },
+                        args
+                    );
+                }
+            }
 
-                            if (hooks.afterModify) {
-                                try {
-                                    modifiedMessages = await hooks.afterModify(
-                                        args,
-                                        modifiedMessages,
-                                        'offload'
-                                    );
-                                } catch (error) {
-                                    if (hooks.onError) {
-                                        await hooks.onError(error as Error, 'offload', args);
-                                    }
-                                    modifiedMessages = messages; // Rollback
-                                    hasChanges = false; // Mark as no changes since we rolled back
-                                }
-                            }
-                        }
+            // Retrieval: index what left the context, then bring back what the latest turn needs
+            if (retriever && !aborted) {
+                report.retrieval = { indexedChunks: 0, injectedSnippets: 0 };
+                try {
+                    const remaining = new Set(modifiedMessages.map(msg => msg.id));
+                    report.retrieval.indexedChunks = await retriever.index(
+                        messages.filter(msg => !remaining.has(msg.id)),
+                        { stepNumber, abortSignal: args.abortSignal }
+                    );
+                    const retrieved = await retriever.retrieve(modifiedMessages, {
+                        stepNumber,
+                        abortSignal: args.abortSignal,
+                    });
+                    if (retrieved) {
+                        modifiedMessages = retrieved.messages;
+                        hasChanges = true;
+                        report.retrieval.injectedSnippets = retrieved.injectedSnippets;
+                        currentTokens = await tokenCounter(modifiedMessages, modelId);
                     }
+                } catch (error) {
+                    report.retrieval.error = (error as Error).message;
                 }
             }
 
+            report.finalTokens = currentTokens;
+            report.changed = hasChanges;
+            await publishReport();
+
             if (hasChanges) {
-                return { messages: modifiedMessages };
+                return routeContextMessages(modifiedMessages, args, systemMessages);
             }
 
             return undefined;
         },
     } satisfies Processor<'context-manager'>;
 
-    return { processor, config: mergedConfig };
+    return { processor, config: mergedConfig, getLastReport: () => lastReport };
 }
 
 // Export types and utilities
 export * from './types.js';
 export * from './utils.js';
 export * from './validation.js';
+export * from './schemas.js';
+export * from './retention.js';
+export * from './embeddings.js';
+export * from './scoring.js';
+export * from './artifacts.js';
+export * from './compaction.js';
+export * from './dedupe.js';
+export * from './truncation.js';
+export * from './policies.js';
+export * from './recall.js';
+export * from './offload.js';
+export * from './libsql.js';
+export * from './retrieval.js';
+export * from './summarization.js';
+export * from './tokenizers.js';
+export * from './caching.js';
+export * from './limits.js';
+export * from './pipeline.js';
+export * from './telemetry.js';
+export * from './errors.js';
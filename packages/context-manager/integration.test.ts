@@ -320,6 +320,7 @@ describe('Integration: README Claims Validation', () => {
                 },
                 retention: {
                     keepRecent: 10,
+                    keepUserMessages: false,
                 },
             });
 
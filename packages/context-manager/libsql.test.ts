@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'bun:test';
+import { createClient } from '@libsql/client';
+import { createLibSQLOffloadStore } from './libsql.js';
+import { createRecallTool } from './recall.js';
+import { stringToContentV2 } from './utils.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+const createMessage = (
+    id: string,
+    text: string,
+    threadId = 'thread-1',
+    role: 'user' | 'assistant' = 'assistant'
+): MastraDBMessage => ({
+    id,
+    role,
+    content: stringToContentV2(text),
+    createdAt: new Date('2024-05-01T10:00:00Z'),
+    threadId,
+    resourceId: 'user-1',
+});
+
+describe('createLibSQLOffloadStore', () => {
+    it('should save offloaded messages and fetch them back by reference', async () => {
+        const store = createLibSQLOffloadStore({ url: ':memory:' });
+        const messages = [createMessage('1', 'Read the config'), createMessage('2', 'Done')];
+
+        const ids = await store.saveMessages(messages, { stepNumber: 7 });
+        const offloaded = await store.getMessage(ids[0]);
+
+        expect(ids).toHaveLength(2);
+        expect(ids[0]).toMatch(/^artifact_/);
+        expect(offloaded).toMatchObject({
+            id: ids[0],
+            message: messages[0],
+            stepNumber: 7,
+            threadId: 'thread-1',
+            resourceId: 'user-1',
+        });
+        expect(offloaded?.message.createdAt).toBeInstanceOf(Date);
+        expect(await store.getMessage('artifact_missing')).toBeUndefined();
+    });
+
+    it('should list offloaded messages by thread, resource and step range', async () => {
+        const store = createLibSQLOffloadStore({ url: ':memory:' });
+        await store.saveMessages([createMessage('1', 'a'), createMessage('2', 'b')], {
+            stepNumber: 5,
+        });
+        await store.saveMessages([createMessage('3', 'c')], { stepNumber: 10 });
+        await store.saveMessages([createMessage('4', 'd', 'thread-2')], { stepNumber: 10 });
+
+        const ids = (query: Parameters<typeof store.listMessages>[0]) =>
+            store.listMessages(query).then(records => records.map(record => record.message.id));
+
+        expect(await ids({})).toEqual(['1', '2', '3', '4']);
+        expect(await ids({ threadId: 'thread-1' })).toEqual(['1', '2', '3']);
+        expect(await ids({ threadId: 'thread-1', fromStep: 6 })).toEqual(['3']);
+        expect(await ids({ resourceId: 'user-1', toStep: 5 })).toEqual(['1', '2']);
+        expect(await ids({ limit: 1 })).toEqual(['1']);
+    });
+
+    it('should work as an artifact store for the recall tool', async () => {
+        const store = createLibSQLOffloadStore({ url: ':memory:' });
+        const [id] = await store.saveMessages([createMessage('1', 'line 1\nline 2', 't', 'user')], {
+            stepNumber: 1,
+        });
+        const artifactId = await store.put('compacted payload', { kind: 'result' });
+
+        const recall = (ref: string) =>
+            (createRecallTool(store).execute as any)({ ref: `ref: ${ref}` }, {});
+
+        expect(await recall(id)).toMatchObject({ found: true, content: '[user]: line 1\nline 2' });
+        expect(await store.get(artifactId)).toMatchObject({
+            content: 'compacted payload',
+            metadata: { kind: 'result' },
+        });
+        expect(await store.getMessage(artifactId)).toBeUndefined();
+    });
+
+    it('should persist through a shared client and a custom table', async () => {
+        const client = createClient({ url: ':memory:' });
+        const first = createLibSQLOffloadStore({ client, tableName: 'offloaded' });
+        const [id] = await first.saveMessages([createMessage('1', 'kept')], { stepNumber: 1 });
+
+        const second = createLibSQLOffloadStore({ client, tableName: 'offloaded' });
+        expect((await second.getMessage(id))?.message.id).toBe('1');
+        expect(() => createLibSQLOffloadStore({ client, tableName: 'bad name' })).toThrow(
+            'Invalid table name "bad name"'
+        );
+    });
+
+    it('should retry the table setup after a failed attempt', async () => {
+        const client = createClient({ url: ':memory:' });
+        const batch = client.batch.bind(client);
+        let calls = 0;
+        client.batch = (async (...args: Parameters<typeof batch>) => {
+            if (++calls === 1) {
+                throw new Error('database locked');
+            }
+            return batch(...args);
+        }) as typeof client.batch;
+        const store = createLibSQLOffloadStore({ client });
+
+        await expect(
+            store.saveMessages([createMessage('1', 'a')], { stepNumber: 1 })
+        ).rejects.toThrow('database locked');
+        const [id] = await store.saveMessages([createMessage('1', 'a')], { stepNumber: 1 });
+        expect((await store.getMessage(id))?.message.id).toBe('1');
+    });
+});
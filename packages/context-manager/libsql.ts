@@ -0,0 +1,206 @@
+/**
+ * LibSQL offload store
+ *
+ * Persists offloaded messages and artifacts in a LibSQL table of its own. Pass the
+ * `@libsql/client` client your Mastra `LibSQLStore` is built on to keep offloaded
+ * history in the agent's database, or a URL (`:memory:` for tests) for a separate one.
+ * Requires the optional `@libsql/client` peer dependency.
+ *
+ * @example
+ * ```typescript
+ * const db = createClient({ url: 'file:./mastra.db' });
+ * const storage = new LibSQLStore({ id: 'agent-storage', client: db });
+ * const store = createLibSQLOffloadStore({ client: db });
+ * const { processor } = createContextManager({
+ *   handlers: { offload: createStoreOffloader({ store }) },
+ * });
+ *
+ * // Later: everything offloaded from a thread
+ * const offloaded = await store.listMessages({ threadId: 'thread-1' });
+ * ```
+ */
+
+import type { Client, Row } from '@libsql/client';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import { createArtifactId } from './artifacts.js';
+import type { Artifact } from './artifacts.js';
+import type { OffloadedMessage, OffloadStore } from './offload.js';
+import { formatOffloadedMessage } from './offload.js';
+
+/**
+ * Options for createLibSQLOffloadStore - a database URL or an existing client
+ */
+export type LibSQLOffloadStoreOptions = (
+    | { url: string; authToken?: string; client?: never }
+    | { client: Client; url?: never; authToken?: never }
+) & {
+    /**
+     * Table created on first use (default: 'contextor_offload')
+     */
+    tableName?: string;
+};
+
+/**
+ * Rebuild an offloaded message from a row
+ */
+function toOffloadedMessage(row: Row): OffloadedMessage {
+    const message = JSON.parse(String(row.message)) as MastraDBMessage;
+    return {
+        id: String(row.id),
+        message: { ...message, createdAt: new Date(message.createdAt) },
+        stepNumber: Number(row.step_number),
+        threadId: row.thread_id === null ? undefined : String(row.thread_id),
+        resourceId: row.resource_id === null ? undefined : String(row.resource_id),
+        createdAt: new Date(Number(row.created_at)),
+    };
+}
+
+/**
+ * Create an offload store backed by LibSQL
+ */
+export function createLibSQLOffloadStore(options: LibSQLOffloadStoreOptions): OffloadStore {
+    const { tableName = 'contextor_offload' } = options;
+    if (!/^\w+$/.test(tableName)) {
+        throw new Error(`Invalid table name "${tableName}"`);
+    }
+
+    let ready: Promise<Client> | undefined;
+    // Connect and create the table once, on first use
+    const getClient = () =>
+        (ready ??= (async () => {
+            const client =
+                options.client ??
+                (await import('@libsql/client')).createClient({
+                    url: options.url,
+                    authToken: options.authToken,
+                });
+            await client.batch(
+                [
+                    `CREATE TABLE IF NOT EXISTS ${tableName} (
+                        id TEXT PRIMARY KEY,
+                        content TEXT NOT NULL,
+                        metadata TEXT,
+                        message TEXT,
+                        thread_id TEXT,
+                        resource_id TEXT,
+                        step_number INTEGER,
+                        created_at INTEGER NOT NULL
+                    )`,
+                    `CREATE INDEX IF NOT EXISTS ${tableName}_thread_step ON ${tableName} (thread_id, step_number)`,
+                ],
+                'write'
+            );
+            return client;
+        })().catch(error => {
+            // Don't keep a failed setup - the next call connects again
+            ready = undefined;
+            throw error;
+        }));
+
+    return {
+        put: async (content, metadata) => {
+            const client = await getClient();
+            const id = createArtifactId(content);
+            await client.execute({
+                sql: `INSERT OR IGNORE INTO ${tableName} (id, content, metadata, created_at) VALUES (?, ?, ?, ?)`,
+                args: [id, content, metadata ? JSON.stringify(metadata) : null, Date.now()],
+            });
+            return id;
+        },
+
+        get: async id => {
+            const client = await getClient();
+            const { rows } = await client.execute({
+                sql: `SELECT id, content, metadata, created_at FROM ${tableName} WHERE id = ?`,
+                args: [id],
+            });
+            const row = rows[0];
+            if (!row) {
+                return undefined;
+            }
+            return {
+                id: String(row.id),
+                content: String(row.content),
+                metadata:
+                    row.metadata === null
+                        ? undefined
+                        : (JSON.parse(String(row.metadata)) as Artifact['metadata']),
+                createdAt: new Date(Number(row.created_at)),
+            };
+        },
+
+        saveMessages: async (messages, context) => {
+            const client = await getClient();
+            const now = Date.now();
+            const records = messages.map(message => {
+                const serialized = JSON.stringify(message);
+                const id = createArtifactId(serialized);
+                const threadId = context.threadId ?? message.threadId ?? null;
+                const resourceId = context.resourceId ?? message.resourceId ?? null;
+                const metadata = {
+                    kind: 'message',
+                    messageId: message.id,
+                    role: message.role,
+                    stepNumber: context.stepNumber,
+                    threadId,
+                    resourceId,
+                };
+                return {
+                    id,
+                    args: [
+                        id,
+                        formatOffloadedMessage(message),
+                        JSON.stringify(metadata),
+                        serialized,
+                        threadId,
+                        resourceId,
+                        context.stepNumber,
+                        now,
+                    ],
+                };
+            });
+
+            await client.batch(
+                records.map(({ args }) => ({
+                    sql: `INSERT OR IGNORE INTO ${tableName} (id, content, metadata, message, thread_id, resource_id, step_number, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                    args,
+                })),
+                'write'
+            );
+            return records.map(record => record.id);
+        },
+
+        getMessage: async id => {
+            const client = await getClient();
+            const { rows } = await client.execute({
+                sql: `SELECT * FROM ${tableName} WHERE id = ? AND message IS NOT NULL`,
+                args: [id],
+            });
+            return rows[0] ? toOffloadedMessage(rows[0]) : undefined;
+        },
+
+        listMessages: async (query = {}) => {
+            const client = await getClient();
+            const conditions = ['message IS NOT NULL'];
+            const args: Array<string | number> = [];
+            const filters: Array<[string, string | number | undefined]> = [
+                ['thread_id = ?', query.threadId],
+                ['resource_id = ?', query.resourceId],
+                ['step_number >= ?', query.fromStep],
+                ['step_number <= ?', query.toStep],
+            ];
+            for (const [condition, value] of filters) {
+                if (value !== undefined) {
+                    conditions.push(condition);
+                    args.push(value);
+                }
+            }
+
+            const { rows } = await client.execute({
+                sql: `SELECT * FROM ${tableName} WHERE ${conditions.join(' AND ')} ORDER BY step_number, created_at, rowid${query.limit === undefined ? '' : ' LIMIT ?'}`,
+                args: query.limit === undefined ? args : [...args, query.limit],
+            });
+            return rows.map(toOffloadedMessage);
+        },
+    };
+}
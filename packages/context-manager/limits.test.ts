@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'bun:test';
+import { createContextWindowResolver, resolveThreshold, DEFAULT_CONTEXT_WINDOW } from './limits.js';
+
+describe('limits', () => {
+    describe('createContextWindowResolver', () => {
+        it('should look up built-in model limits ignoring the provider prefix', () => {
+            const resolve = createContextWindowResolver();
+            expect(resolve('anthropic/claude-sonnet-4-5')).toBe(200000);
+            expect(resolve('openai/gpt-3.5-turbo')).toBe(16385);
+        });
+
+        it('should prefer the longest matching prefix', () => {
+            const resolve = createContextWindowResolver();
+            expect(resolve('gpt-4')).toBe(8192);
+            expect(resolve('openai/gpt-4o-mini')).toBe(128000);
+            expect(resolve('gpt-4.1-mini')).toBe(1047576);
+        });
+
+        it('should use the fallback for unknown or missing models', () => {
+            expect(createContextWindowResolver()('acme/unknown')).toBe(DEFAULT_CONTEXT_WINDOW);
+            expect(createContextWindowResolver({ fallback: 32000 })(undefined)).toBe(32000);
+        });
+
+        it('should allow extending and overriding the table', () => {
+            const resolve = createContextWindowResolver({
+                limits: { 'my-model': 32000, 'gpt-4o': 64000 },
+            });
+            expect(resolve('local/my-model-v2')).toBe(32000);
+            expect(resolve('openai/gpt-4o')).toBe(64000);
+        });
+    });
+
+    describe('resolveThreshold', () => {
+        it('should return absolute thresholds unchanged', () => {
+            expect(resolveThreshold(40000, 200000)).toBe(40000);
+        });
+
+        it('should resolve percentages against the context window', () => {
+            expect(resolveThreshold('60%', 200000)).toBe(120000);
+            expect(resolveThreshold('12.5%', 32000)).toBe(4000);
+        });
+
+        it('should throw on malformed thresholds', () => {
+            expect(() => resolveThreshold('sixty' as any, 1000)).toThrow('Invalid threshold');
+        });
+    });
+});
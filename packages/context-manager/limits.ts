@@ -0,0 +1,86 @@
+/**
+ * Model context window limits
+ *
+ * Lets thresholds be written as a fraction of the model's context window (e.g. '60%'),
+ * so the same config works for a 32k and a 200k model.
+ */
+
+import type { ThresholdValue } from './types.js';
+
+/**
+ * Resolves the context window size (in tokens) for a model id
+ */
+export type ContextWindowResolver = (modelId?: string) => number;
+
+/**
+ * Context window used when a model is not in the limits table
+ */
+export const DEFAULT_CONTEXT_WINDOW = 128000;
+
+/**
+ * Built-in context window sizes, keyed by model id prefix (provider prefix is ignored)
+ * The longest matching prefix wins, so 'gpt-4o' is matched before 'gpt-4'
+ */
+export const MODEL_CONTEXT_WINDOWS: Readonly<Record<string, number>> = {
+    'gpt-3.5-turbo': 16385,
+    'gpt-4': 8192,
+    'gpt-4-32k': 32768,
+    'gpt-4-turbo': 128000,
+    'gpt-4o': 128000,
+    'gpt-4.1': 1047576,
+    'gpt-5': 400000,
+    o1: 200000,
+    o3: 200000,
+    'o4-mini': 200000,
+    'claude-2': 100000,
+    'claude-3': 200000,
+    'claude-sonnet-4': 200000,
+    'claude-opus-4': 200000,
+    'claude-haiku-4': 200000,
+    'gemini-1.5-flash': 1048576,
+    'gemini-1.5-pro': 2097152,
+    'gemini-2': 1048576,
+    'mistral-large': 128000,
+    'mistral-small': 32000,
+    'llama-3.1': 128000,
+    'llama-3.3': 128000,
+};
+
+/**
+ * Create a resolver that looks model ids up in the built-in table plus your own entries
+ */
+export function createContextWindowResolver(
+    options: { limits?: Record<string, number>; fallback?: number } = {}
+): ContextWindowResolver {
+    const { fallback = DEFAULT_CONTEXT_WINDOW } = options;
+    const limits = { ...MODEL_CONTEXT_WINDOWS, ...options.limits };
+    // Longest prefix first so more specific ids win
+    const prefixes = Object.keys(limits).sort((a, b) => b.length - a.length);
+
+    return modelId => {
+        if (!modelId) {
+            return fallback;
+        }
+        const name = modelId.slice(modelId.lastIndexOf('/') + 1).toLowerCase();
+        const prefix = prefixes.find(p => name.startsWith(p.toLowerCase()));
+        return prefix ? limits[prefix] : fallback;
+    };
+}
+
+/**
+ * Resolve a threshold to an absolute token count
+ * Numbers are used as-is, percentages are taken of the context window
+ */
+export function resolveThreshold(value: ThresholdValue, contextWindow: number): number {
+    if (typeof value === 'number') {
+        return value;
+    }
+
+    const match = /^\s*(\d+(?:\.\d+)?)\s*%\s*$/.exec(value);
+    if (!match) {
+        throw new Error(
+            `Invalid threshold "${value}" - use a token count or a percentage like "60%"`
+        );
+    }
+    return Math.floor((contextWindow * Number(match[1])) / 100);
+}
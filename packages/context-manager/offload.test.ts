@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'bun:test';
+import { createStoreOffloader, isOffloadReference, OFFLOAD_METADATA_KEY } from './offload.js';
+import { createLibSQLOffloadStore } from './libsql.js';
+import { createContextManager } from './index.js';
+import { getMessageText, stringToContentV2 } from './utils.js';
+import { MessageList } from '@mastra/core/agent/message-list';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import { ProcessorRunner } from '@mastra/core/processors';
+import type { RunProcessInputStepArgs } from '@mastra/core/processors';
+import { noopLogger } from '@mastra/core/logger';
+
+const createMessage = (
+    id: string,
+    role: 'user' | 'assistant' | 'system',
+    text: string
+): MastraDBMessage => ({
+    id,
+    role,
+    content: stringToContentV2(text),
+    createdAt: new Date(),
+    threadId: 'thread-1',
+});
+
+describe('createStoreOffloader', () => {
+    it('should save offloaded messages and leave a reference in their place', async () => {
+        const store = createLibSQLOffloadStore({ url: ':memory:' });
+        const system = createMessage('sys', 'system', 'You are helpful');
+        const old = [
+            createMessage('1', 'assistant', 'Listed 40 files in src'),
+            createMessage('2', 'assistant', 'Read src/index.ts'),
+        ];
+        const recent = createMessage('3', 'user', 'Now fix the bug');
+
+        const result = await createStoreOffloader({ store })({
+            messages: [system, ...old, recent],
+            // Released messages may arrive ranked by score
+            messagesToOffload: [old[1], old[0]],
+            messagesToKeep: [system, recent],
+            stepNumber: 12,
+        } as any);
+
+        expect(result?.map(m => m.id)).toEqual(['sys', 'offload-12', '3']);
+        const reference = result![1];
+        expect(isOffloadReference(reference)).toBe(true);
+        const { ids } = reference.content.metadata?.[OFFLOAD_METADATA_KEY] as { ids: string[] };
+        expect(getMessageText(reference)).toBe(
+            [
+                '[2 earlier messages were offloaded at step 12 - recall them by reference]',
+                `- ref: ${ids[0]} [assistant] Listed 40 files in src`,
+                `- ref: ${ids[1]} [assistant] Read src/index.ts`,
+            ].join('\n')
+        );
+
+        const saved = await store.listMessages({ threadId: 'thread-1', fromStep: 12 });
+        expect(saved.map(record => record.message.id)).toEqual(['1', '2']);
+    });
+
+    it('should offload through the orchestrator', async () => {
+        const store = createLibSQLOffloadStore({ url: ':memory:' });
+        const { processor } = createContextManager({
+            handlers: { offload: createStoreOffloader({ store }) },
+            thresholds: { offload: 1 },
+            stepTriggers: { minStepsForOffload: 1 },
+            retention: { keepRecent: 1, keepUserMessages: false },
+            tokenCounter: async () => 1000,
+        });
+
+        await processor.processInputStep?.({
+            messages: [
+                createMessage('1', 'user', 'One'),
+                createMessage('2', 'assistant', 'Two'),
+                createMessage('3', 'assistant', 'Three'),
+            ],
+            messageList: {} as any,
+            stepNumber: 10,
+            steps: [],
+            systemMessages: [],
+            model: 'anthropic/claude-sonnet-4-5',
+            abort: () => {
+                throw new Error('Aborted');
+            },
+            tracingContext: undefined,
+            requestContext: undefined,
+            retryCount: 0,
+        });
+
+        const saved = await store.listMessages({ threadId: 'thread-1' });
+        expect(saved.map(record => [record.message.id, record.stepNumber])).toEqual([
+            ['1', 10],
+            ['2', 10],
+        ]);
+    });
+
+    it('should hand references back with their metadata in a real message list', async () => {
+        const store = createLibSQLOffloadStore({ url: ':memory:' });
+        const offloader = createStoreOffloader({ store });
+        const seen: MastraDBMessage[][] = [];
+        const { processor } = createContextManager({
+            handlers: {
+                offload: async args => {
+                    seen.push(args.messages.filter(isOffloadReference));
+                    return offloader(args);
+                },
+            },
+            thresholds: { offload: 1 },
+            stepTriggers: { minStepsForOffload: 1 },
+            retention: { keepRecent: 1, keepUserMessages: false },
+            tokenCounter: async () => 1000,
+        });
+        const runner = new ProcessorRunner({
+            inputProcessors: [processor],
+            logger: noopLogger,
+            agentName: 'test',
+        });
+        const messageList = new MessageList();
+        messageList.addSystem('You are helpful');
+        const runStep = (stepNumber: number, added: MastraDBMessage[]) => {
+            messageList.add(added, 'input');
+            return runner.runProcessInputStep({
+                messageList,
+                stepNumber,
+                steps: [],
+            } as unknown as RunProcessInputStepArgs);
+        };
+
+        await runStep(1, [
+            createMessage('1', 'user', 'One'),
+            createMessage('2', 'assistant', 'Two'),
+            createMessage('3', 'user', 'Three'),
+        ]);
+        await runStep(2, [
+            createMessage('4', 'assistant', 'Four'),
+            createMessage('5', 'user', 'Five'),
+        ]);
+
+        expect(seen.map(refs => refs.map(m => m.id))).toEqual([[], ['offload-1']]);
+        const system = messageList.getSystemMessages().map(msg => String(msg.content));
+        expect(system).toHaveLength(3);
+        expect(system[0]).toBe('You are helpful');
+        expect(system[1]).toContain('offloaded at step 1');
+        expect(system[2]).toContain('offloaded at step 2');
+        expect(messageList.get.all.db().map(m => m.id)).toEqual(['5']);
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Offload stores
+ *
+ * An OffloadStore keeps offloaded messages instead of throwing them away, indexed by
+ * thread, resource and step. It is also an ArtifactStore: each saved message gets an
+ * artifact id, so `createRecallTool(store)` fetches it back by reference and the
+ * tool-output compactor can write to the same store.
+ *
+ * @example
+ * ```typescript
+ * const store = createLibSQLOffloadStore({ url: 'file:./offload.db' });
+ * const agent = new Agent({
+ *   tools: { recall: createRecallTool(store) },
+ *   inputProcessors: [
+ *     createContextManager({ handlers: { offload: createStoreOffloader({ store }) } }).processor,
+ *   ],
+ * });
+ * ```
+ */
+
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { ArtifactStore } from './artifacts.js';
+import { formatArtifactReference } from './artifacts.js';
+import type { ContextStrategyHandlers } from './types.js';
+import { getMessageText, insertReplacement, stringToContentV2 } from './utils.js';
+
+/**
+ * Where offloaded messages came from
+ * threadId and resourceId default to each message's own fields
+ */
+export interface OffloadContext {
+    stepNumber: number;
+    threadId?: string;
+    resourceId?: string;
+}
+
+/**
+ * A message saved to an OffloadStore
+ */
+export interface OffloadedMessage {
+    /**
+     * Artifact id - the reference left in context
+     */
+    id: string;
+    message: MastraDBMessage;
+    stepNumber: number;
+    threadId?: string;
+    resourceId?: string;
+    createdAt: Date;
+}
+
+/**
+ * Filter for listing offloaded messages - steps are inclusive
+ */
+export interface OffloadQuery {
+    threadId?: string;
+    resourceId?: string;
+    fromStep?: number;
+    toStep?: number;
+    limit?: number;
+}
+
+/**
+ * Persistent storage for offloaded messages
+ */
+export interface OffloadStore extends ArtifactStore {
+    /**
+     * Save messages and return their artifact ids, in the same order
+     */
+    saveMessages: (messages: MastraDBMessage[], context: OffloadContext) => Promise<string[]>;
+
+    /**
+     * Fetch an offloaded message by artifact id, or undefined if the id is unknown
+     */
+    getMessage: (id: string) => Promise<OffloadedMessage | undefined>;
+
+    /**
+     * List offloaded messages, oldest step first
+     */
+    listMessages: (query?: OffloadQuery) => Promise<OffloadedMessage[]>;
+}
+
+/**
+ * Metadata key marking the reference message left in place of offloaded messages
+ */
+export const OFFLOAD_METADATA_KEY = 'contextorOffload';
+
+/**
+ * Whether a message is a reference left by createStoreOffloader
+ */
+export function isOffloadReference(msg: MastraDBMessage): boolean {
+    return Boolean(msg.content.metadata?.[OFFLOAD_METADATA_KEY]);
+}
+
+/**
+ * Render an offloaded message as artifact content - what the recall tool returns
+ */
+export function formatOffloadedMessage(msg: MastraDBMessage): string {
+    return `[${msg.role}]: ${getMessageText(msg)}`;
+}
+
+/**
+ * Creates an offload handler that saves offloaded messages to a store and leaves a
+ * reference message listing them, with a short preview of each
+ */
+export function createStoreOffloader(options: {
+    store: OffloadStore;
+    previewChars?: number;
+}): NonNullable<ContextStrategyHandlers['offload']> {
+    const { store, previewChars = 80 } = options;
+
+    return async ({ messages, messagesToOffload, messagesToKeep, stepNumber }) => {
+        if (messagesToOffload.length === 0) {
+            return undefined;
+        }
+
+        // Released messages may arrive ranked by score - list them in conversation order
+        const positions = new Map(messages.map((msg, index) => [msg.id, index]));
+        const offloaded = [...messagesToOffload].sort(
+            (a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0)
+        );
+        const ids = await store.saveMessages(offloaded, { stepNumber });
+
+        const lines = offloaded.map((msg, index) => {
+            const text = getMessageText(msg).replace(/\s+/g, ' ').trim();
+            const preview = text.length > previewChars ? `${text.slice(0, previewChars)}…` : text;
+            return `- ${formatArtifactReference(ids[index])} [${msg.role}] ${preview}`;
+        });
+        const reference: MastraDBMessage = {
+            id: `offload-${stepNumber}`,
+            role: 'system',
+            content: {
+                ...stringToContentV2(
+                    `[${offloaded.length} earlier messages were offloaded at step ${stepNumber} - recall them by reference]\n${lines.join('\n')}`
+                ),
+                metadata: { [OFFLOAD_METADATA_KEY]: { stepNumber, ids } },
+            },
+            createdAt: offloaded[0].createdAt,
+        };
+
+        return insertReplacement(messages, messagesToKeep, reference, offloaded[0]);
+    };
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, mock } from 'bun:test';
+import {
+    createBuiltInStrategy,
+    defaultShouldTrigger,
+    defineStrategy,
+    resolvePipeline,
+} from './pipeline.js';
+import { DEFAULT_CONFIG } from './types.js';
+import type { ResolvedContextManagerConfig, StrategyContext } from './types.js';
+import { stringToContentV2 } from './utils.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+const createMessage = (id: string, role: 'user' | 'assistant' = 'assistant'): MastraDBMessage => ({
+    id,
+    role,
+    content: stringToContentV2(`Message ${id}`),
+    createdAt: new Date(),
+});
+
+const createContext = (overrides: Partial<StrategyContext> = {}): StrategyContext => ({
+    args: {} as StrategyContext['args'],
+    stepNumber: 1,
+    estimatedTokens: 1000,
+    tokensBeforeStrategy: 1000,
+    ...overrides,
+});
+
+const dedupe = defineStrategy({
+    name: 'dedupe',
+    handler: args => args.messages,
+});
+
+describe('pipeline', () => {
+    describe('defaultShouldTrigger', () => {
+        it('should trigger on every step when no threshold is set', () => {
+            expect(defaultShouldTrigger(createContext())).toBe(true);
+        });
+
+        it('should trigger only above the threshold', () => {
+            expect(defaultShouldTrigger(createContext({ threshold: 1000 }))).toBe(false);
+            expect(defaultShouldTrigger(createContext({ threshold: 999 }))).toBe(true);
+        });
+    });
+
+    describe('createBuiltInStrategy', () => {
+        it('should return undefined when no handler is configured', () => {
+            expect(createBuiltInStrategy('filter', DEFAULT_CONFIG)).toBeUndefined();
+        });
+
+        it('should apply the step triggers and default thresholds', () => {
+            const offload = createBuiltInStrategy('offload', {
+                ...DEFAULT_CONFIG,
+                handlers: { offload: async () => undefined },
+            })!;
+            expect(offload.shouldTrigger!(createContext({ stepNumber: 4 }))).toBe(false);
+            expect(offload.shouldTrigger!(createContext({ stepNumber: 5 }))).toBe(false);
+            expect(
+                offload.shouldTrigger!(
+                    createContext({ stepNumber: 5, tokensBeforeStrategy: 50001 })
+                )
+            ).toBe(true);
+        });
+
+        it('should split messages for summarize and skip when there is nothing to summarize', async () => {
+            const summarize = mock(async () => undefined);
+            const strategy = createBuiltInStrategy('summarize', {
+                ...DEFAULT_CONFIG,
+                handlers: { summarize },
+                retention: { keepRecent: 2 },
+            })!;
+            const args = (messages: MastraDBMessage[]) => ({
+                ...createContext().args,
+                messages,
+                estimatedTokens: 0,
+                tokensBeforeStrategy: 0,
+            });
+
+            await strategy.handler(args([createMessage('1'), createMessage('2')]), createContext());
+            expect(summarize).not.toHaveBeenCalled();
+
+            const messages = ['1', '2', '3'].map(id => createMessage(id));
+            await strategy.handler(args(messages), createContext());
+            expect(summarize).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    oldMessages: [messages[0]],
+                    recentMessages: [messages[1], messages[2]],
+                })
+            );
+        });
+
+        it('should drop earlier reasoning from kept messages when keepReasoning is false', async () => {
+            const offload = mock(async () => undefined);
+            const strategy = createBuiltInStrategy('offload', {
+                ...DEFAULT_CONFIG,
+                handlers: { offload },
+                retention: { keepRecent: 3, keepReasoning: false },
+            })!;
+            const thinking: MastraDBMessage = {
+                ...createMessage('3'),
+                content: {
+                    format: 2,
+                    parts: [
+                        { type: 'reasoning', reasoning: 'Thinking', details: [] },
+                        { type: 'text', text: 'Answer' },
+                    ],
+                },
+            };
+            const messages = [
+                createMessage('1'),
+                createMessage('2'),
+                thinking,
+                createMessage('4', 'user'),
+            ];
+
+            await strategy.handler(
+                { ...createContext().args, messages, estimatedTokens: 0, tokensBeforeStrategy: 0 },
+                createContext()
+            );
+            expect(offload).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    messagesToOffload: [messages[0]],
+                    messagesToKeep: [
+                        messages[1],
+                        { ...thinking, content: { format: 2, parts: [thinking.content.parts[1]] } },
+                        messages[3],
+                    ],
+                })
+            );
+        });
+    });
+
+    describe('resolvePipeline', () => {
+        const resolveConfig = (
+            overrides: Partial<ResolvedContextManagerConfig<'dedupe'>>
+        ): ResolvedContextManagerConfig<'dedupe'> => ({
+            ...DEFAULT_CONFIG,
+            handlers: { filter: async () => undefined, compact: async () => undefined },
+            ...overrides,
+        });
+
+        it('should keep pipeline order and drop built-ins without handlers', () => {
+            const pipeline = resolvePipeline(
+                resolveConfig({ pipeline: ['compact', dedupe, 'filter', 'offload'] })
+            );
+            expect(pipeline.map(s => s.name)).toEqual(['compact', 'dedupe', 'filter']);
+            expect(pipeline[1]).toBe(dedupe);
+        });
+
+        it('should drop strategies disabled in config', () => {
+            const pipeline = resolvePipeline(
+                resolveConfig({
+                    pipeline: ['filter', dedupe],
+                    strategies: { ...DEFAULT_CONFIG.strategies, dedupe: false },
+                })
+            );
+            expect(pipeline.map(s => s.name)).toEqual(['filter']);
+        });
+
+        it('should reject duplicate and unknown strategy names', () => {
+            expect(() =>
+                resolvePipeline(resolveConfig({ pipeline: ['filter', 'filter'] }))
+            ).toThrow('Duplicate strategy "filter"');
+            expect(() =>
+                resolvePipeline(resolveConfig({ pipeline: ['dedupe' as 'filter'] }))
+            ).toThrow('Unknown strategy "dedupe"');
+        });
+    });
+});
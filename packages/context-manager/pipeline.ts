@@ -0,0 +1,208 @@
+/**
+ * Strategy pipeline
+ *
+ * Each strategy is a registered object with a name, a trigger predicate and a handler.
+ * The four built-in strategies are looked up by name and wrap the configured handlers;
+ * custom strategies (e.g. dedupe, redact) can be added anywhere in the order.
+ *
+ * @example
+ * ```typescript
+ * const { processor } = createContextManager({
+ *   pipeline: ['filter', dedupe, 'compact', 'summarize', 'offload'],
+ *   thresholds: { dedupe: '30%' },
+ *   hooks: { afterModify: (args, messages, strategy) => messages }, // strategy: StrategyName | 'dedupe'
+ * });
+ * ```
+ */
+
+import type {
+    ContextStrategy,
+    HandlerChain,
+    ResolvedContextManagerConfig,
+    StrategyContext,
+    StrategyHandlerArgs,
+    StrategyName,
+} from './types.js';
+import { STRATEGY_NAMES } from './types.js';
+import { dropReasoningParts } from './utils.js';
+import { partitionMessages } from './retention.js';
+import {
+    applyToolPoliciesToRetention,
+    applyToolResultPolicies,
+    hasToolResultPolicies,
+} from './policies.js';
+
+/**
+ * Wrap every handler in a chain, keeping a single handler unwrapped
+ */
+function mapChain<T, U>(chain: HandlerChain<T>, wrap: (handler: T) => U): HandlerChain<U> {
+    return Array.isArray(chain) ? chain.map(wrap) : wrap(chain);
+}
+
+/**
+ * Define a custom strategy - keeps its name as a literal type so hooks are typed against it
+ */
+export function defineStrategy<const TName extends string>(
+    strategy: ContextStrategy<TName>
+): ContextStrategy<TName> {
+    return strategy;
+}
+
+/**
+ * Default trigger for custom strategies: run when over the strategy's threshold,
+ * or on every step when no threshold is configured
+ */
+export function defaultShouldTrigger(context: StrategyContext): boolean {
+    return context.threshold === undefined || context.tokensBeforeStrategy > context.threshold;
+}
+
+/**
+ * Build the built-in strategy for a name, or undefined when no handler is configured
+ */
+export function createBuiltInStrategy(
+    name: StrategyName,
+    config: Pick<
+        ResolvedContextManagerConfig<string>,
+        'handlers' | 'stepTriggers' | 'retention' | 'scorer' | 'toolPolicies'
+    >
+): ContextStrategy<StrategyName> | undefined {
+    const { handlers, stepTriggers, retention, scorer, toolPolicies } = config;
+
+    // Split by the retention and tool policies, ranking released messages by score if set
+    const partition = async (args: StrategyHandlerArgs, strategy: 'summarize' | 'offload') => {
+        const scores = scorer
+            ? await scorer(args.messages, { abortSignal: args.abortSignal })
+            : undefined;
+        const { kept, released } = partitionMessages(
+            args.messages,
+            applyToolPoliciesToRetention(retention, toolPolicies, strategy),
+            scores
+        );
+        return {
+            kept: retention.keepReasoning === false ? dropReasoningParts(kept) : kept,
+            released,
+        };
+    };
+
+    switch (name) {
+        case 'filter': {
+            const filter = handlers.filter;
+            const hasPolicies = hasToolResultPolicies(toolPolicies);
+            if (!filter && !hasPolicies) {
+                return undefined;
+            }
+
+            // Reduce oversized tool results per tool policy before the configured handler runs
+            const reduce = (args: StrategyHandlerArgs) =>
+                applyToolResultPolicies(args.messages, toolPolicies);
+            return {
+                name,
+                shouldTrigger: ({ tokensBeforeStrategy, threshold = 0 }) =>
+                    tokensBeforeStrategy > threshold,
+                handler: !filter
+                    ? reduce
+                    : !hasPolicies
+                      ? filter
+                      : mapChain(filter, fn => async (args: StrategyHandlerArgs) => {
+                            const reduced = await reduce(args);
+                            const result = await fn(
+                                reduced ? { ...args, messages: reduced } : args
+                            );
+                            return result ?? reduced;
+                        }),
+            };
+        }
+        case 'compact': {
+            const compact = handlers.compact;
+            return compact
+                ? {
+                      name,
+                      shouldTrigger: ({ stepNumber, tokensBeforeStrategy, threshold = 0 }) =>
+                          stepNumber >= (stepTriggers.minStepsForCompact ?? 5) &&
+                          tokensBeforeStrategy > threshold,
+                      handler: compact,
+                  }
+                : undefined;
+        }
+        case 'summarize': {
+            const summarize = handlers.summarize;
+            return summarize
+                ? {
+                      name,
+                      shouldTrigger: ({ stepNumber, tokensBeforeStrategy, threshold = 0 }) => {
+                          const summarizeEvery = stepTriggers.summarizeEvery ?? 20;
+                          return (
+                              stepNumber >= summarizeEvery &&
+                              stepNumber % summarizeEvery === 0 &&
+                              tokensBeforeStrategy > threshold
+                          );
+                      },
+                      handler: mapChain(summarize, fn => async (args: StrategyHandlerArgs) => {
+                          const { kept, released } = await partition(args, 'summarize');
+                          if (released.length === 0) {
+                              return undefined;
+                          }
+                          return fn({ ...args, oldMessages: released, recentMessages: kept });
+                      }),
+                  }
+                : undefined;
+        }
+        case 'offload': {
+            const offload = handlers.offload;
+            return offload
+                ? {
+                      name,
+                      shouldTrigger: ({ stepNumber, tokensBeforeStrategy, threshold = 50000 }) =>
+                          stepNumber >= (stepTriggers.minStepsForOffload ?? 10) &&
+                          tokensBeforeStrategy > threshold,
+                      handler: mapChain(offload, fn => async (args: StrategyHandlerArgs) => {
+                          // Determine which messages to offload vs keep
+                          const { kept, released } = await partition(args, 'offload');
+                          if (released.length === 0) {
+                              return undefined;
+                          }
+                          return fn({ ...args, messagesToOffload: released, messagesToKeep: kept });
+                      }),
+                  }
+                : undefined;
+        }
+    }
+}
+
+/**
+ * Resolve the configured pipeline to strategy objects, in order
+ * Built-in names without a handler and strategies disabled via `strategies` are dropped
+ */
+export function resolvePipeline<TCustom extends string>(
+    config: ResolvedContextManagerConfig<TCustom>
+): ContextStrategy<StrategyName | TCustom>[] {
+    const resolved: ContextStrategy<StrategyName | TCustom>[] = [];
+    const seen = new Set<string>();
+
+    for (const entry of config.pipeline) {
+        const name = typeof entry === 'string' ? entry : entry.name;
+        if (seen.has(name)) {
+            throw new Error(`Duplicate strategy "${name}" in pipeline`);
+        }
+        seen.add(name);
+
+        if (typeof entry === 'string' && !STRATEGY_NAMES.includes(entry)) {
+            throw new Error(
+                `Unknown strategy "${entry}" in pipeline - register custom strategies as objects`
+            );
+        }
+        if (config.strategies[name as StrategyName | TCustom] === false) {
+            continue;
+        }
+
+        const strategy =
+            typeof entry === 'string'
+                ? createBuiltInStrategy(entry, config as ResolvedContextManagerConfig<string>)
+                : entry;
+        if (strategy) {
+            resolved.push(strategy);
+        }
+    }
+
+    return resolved;
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { applyToolPoliciesToRetention, applyToolResultPolicies } from './policies.js';
+import { createBuiltInStrategy } from './pipeline.js';
+import { partitionMessages } from './retention.js';
+import { DEFAULT_CONFIG } from './types.js';
+import type { StrategyContext, StrategyHandlerArgs } from './types.js';
+import { stringToContentV2 } from './utils.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+const createToolMessage = (id: string, toolName: string, result: unknown): MastraDBMessage => ({
+    id,
+    role: 'assistant',
+    content: {
+        format: 2,
+        parts: [
+            {
+                type: 'tool-invocation',
+                toolInvocation: {
+                    state: 'result',
+                    toolCallId: `call-${id}`,
+                    toolName,
+                    args: { path: id },
+                    result,
+                },
+            },
+        ],
+    },
+    createdAt: new Date(),
+});
+
+const createMessage = (id: string): MastraDBMessage => ({
+    id,
+    role: 'assistant',
+    content: stringToContentV2(`Message ${id}`),
+    createdAt: new Date(),
+});
+
+const getResult = (msg: MastraDBMessage) =>
+    (msg.content.parts[0] as { toolInvocation: { result: unknown } }).toolInvocation.result;
+
+const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n');
+
+describe('tool policies', () => {
+    describe('applyToolPoliciesToRetention', () => {
+        const messages = [
+            createToolMessage('r1', 'read-file', 'a'),
+            createToolMessage('b1', 'execute-bash', 'b'),
+            createToolMessage('r2', 'read-file', 'c'),
+            createToolMessage('l1', 'list-files', 'd'),
+            createMessage('last'),
+        ];
+
+        it('should keep invocations of tools that may not be offloaded or summarized', () => {
+            const policies = { 'read-file': { offload: false } };
+            const offload = applyToolPoliciesToRetention({ keepRecent: 1 }, policies, 'offload');
+            const summarize = applyToolPoliciesToRetention(
+                { keepRecent: 1 },
+                policies,
+                'summarize'
+            );
+
+            expect(partitionMessages(messages, offload).kept.map(m => m.id)).toEqual([
+                'r1',
+                'r2',
+                'last',
+            ]);
+            expect(partitionMessages(messages, summarize).kept.map(m => m.id)).toEqual(['last']);
+        });
+
+        it('should keep the last N results per tool', () => {
+            const retention = applyToolPoliciesToRetention(
+                { keepRecent: 0, keepReasoning: false },
+                { 'execute-bash': { keepRecent: 1 }, 'read-file': { keepRecent: 1 } },
+                'offload'
+            );
+
+            expect(partitionMessages(messages, retention).kept.map(m => m.id)).toEqual([
+                'b1',
+                'r2',
+            ]);
+            expect(retention.keepReasoning).toBe(false);
+        });
+
+        it('should return the retention policy unchanged without relevant policies', () => {
+            const retention = { keepRecent: 3 };
+            expect(
+                applyToolPoliciesToRetention(
+                    retention,
+                    { 'read-file': { maxResultTokens: 10 } },
+                    'offload'
+                )
+            ).toBe(retention);
+        });
+    });
+
+    describe('applyToolResultPolicies', () => {
+        it('should truncate results above maxResultTokens', async () => {
+            const messages = [
+                createToolMessage('1', 'execute-bash', { stdout: lines(500), stderr: 'boom' }),
+                createToolMessage('2', 'read-file', lines(500)),
+            ];
+            const result = (await applyToolResultPolicies(messages, {
+                'execute-bash': { maxResultTokens: 100 },
+            }))!;
+
+            expect(getResult(result[0])).toMatchObject({ stderr: 'boom' });
+            expect((getResult(result[0]) as { stdout: string }).stdout).toContain('omitted');
+            expect(result[1]).toBe(messages[1]);
+        });
+
+        it('should bring single-line results within maxResultTokens', async () => {
+            const messages = [createToolMessage('1', 'fetchPage', 'x'.repeat(100_000))];
+
+            const result = (await applyToolResultPolicies(messages, {
+                fetchPage: { maxResultTokens: 100 },
+            }))!;
+
+            expect(getResult(result[0])).toContain('chars omitted');
+            expect((getResult(result[0]) as string).length).toBeLessThanOrEqual(400);
+        });
+
+        it('should pass oversized results to a custom reducer', async () => {
+            const reducer = mock((result: unknown) => `${String(result).split('\n').length} lines`);
+            const messages = [
+                createToolMessage('1', 'list-files', lines(500)),
+                createToolMessage('2', 'list-files', 'a.txt'),
+            ];
+
+            const result = (await applyToolResultPolicies(messages, {
+                'list-files': { maxResultTokens: 100, reducer },
+            }))!;
+
+            expect(result.map(getResult)).toEqual(['500 lines', 'a.txt']);
+            expect(reducer).toHaveBeenCalledTimes(1);
+            expect(reducer.mock.calls[0][1]).toEqual({
+                toolName: 'list-files',
+                toolCallId: 'call-1',
+                args: { path: '1' },
+                maxResultTokens: 100,
+            });
+        });
+
+        it('should return undefined when no result is over its limit', async () => {
+            expect(
+                await applyToolResultPolicies([createToolMessage('1', 'read-file', 'short')], {
+                    'read-file': { maxResultTokens: 100 },
+                })
+            ).toBeUndefined();
+        });
+    });
+
+    describe('built-in strategies', () => {
+        const createContext = (messages: MastraDBMessage[]) => {
+            const args = {
+                messages,
+                stepNumber: 1,
+                estimatedTokens: 0,
+                tokensBeforeStrategy: 0,
+            } as unknown as StrategyHandlerArgs;
+            return [args, { args } as unknown as StrategyContext] as const;
+        };
+
+        it('should create a filter strategy from tool policies alone', async () => {
+            const filter = createBuiltInStrategy('filter', {
+                ...DEFAULT_CONFIG,
+                toolPolicies: { 'read-file': { maxResultTokens: 100 } },
+            })!;
+            const handler = filter.handler as (
+                ...args: ReturnType<typeof createContext>
+            ) => Promise<MastraDBMessage[] | undefined>;
+
+            const result = await handler(
+                ...createContext([createToolMessage('1', 'read-file', lines(500))])
+            );
+            expect(getResult(result![0])).toContain('lines omitted');
+        });
+
+        it('should reduce results before the configured filter handler runs', async () => {
+            const configured = mock(async (args: StrategyHandlerArgs) => args.messages.slice(0));
+            const filter = createBuiltInStrategy('filter', {
+                ...DEFAULT_CONFIG,
+                handlers: { filter: configured },
+                toolPolicies: { 'read-file': { maxResultTokens: 100 } },
+            })!;
+            const handler = filter.handler as (
+                ...args: ReturnType<typeof createContext>
+            ) => Promise<MastraDBMessage[] | undefined>;
+
+            await handler(...createContext([createToolMessage('1', 'read-file', lines(500))]));
+            expect(getResult(configured.mock.calls[0][0].messages[0])).toContain('lines omitted');
+        });
+
+        it('should keep tools that may not be offloaded out of messagesToOffload', async () => {
+            const offload = mock(async (args: StrategyHandlerArgs) => args.messagesToKeep);
+            const strategy = createBuiltInStrategy('offload', {
+                ...DEFAULT_CONFIG,
+                handlers: { offload },
+                retention: { keepRecent: 1 },
+                toolPolicies: { 'read-file': { offload: false } },
+            })!;
+            const handler = strategy.handler as (
+                ...args: ReturnType<typeof createContext>
+            ) => Promise<MastraDBMessage[] | undefined>;
+
+            await handler(
+                ...createContext([
+                    createToolMessage('1', 'read-file', 'a'),
+                    createToolMessage('2', 'execute-bash', 'b'),
+                    createMessage('3'),
+                ])
+            );
+            expect(offload.mock.calls[0][0].messagesToOffload!.map(m => m.id)).toEqual(['2']);
+        });
+    });
+});
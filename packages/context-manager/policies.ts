@@ -0,0 +1,184 @@
+/**
+ * Per-tool context policies
+ *
+ * Tools produce very different outputs - a file read is worth keeping verbatim, a
+ * directory listing rarely is. `toolPolicies` declares, per tool, how the built-in
+ * strategies treat that tool's invocations: filter reduces results above
+ * `maxResultTokens`, and the summarize and offload splits honour `summarize`,
+ * `offload` and `keepRecent`.
+ *
+ * @example
+ * ```typescript
+ * const { processor } = createContextManager({
+ *   toolPolicies: {
+ *     // Keyed by the name each tool is registered under in the agent's `tools`
+ *     readFile: { keepRecent: 3, summarize: false },
+ *     executeBash: { maxResultTokens: 1000 },
+ *     listFiles: { maxResultTokens: 200, reducer: result => summarizeListing(result) },
+ *   },
+ * });
+ * ```
+ */
+
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { RetentionPolicy } from './retention.js';
+import { combineRetentionPolicies } from './retention.js';
+import { truncateToolResult } from './truncation.js';
+import type { ToolInvocationPart } from './utils.js';
+import { estimateTextTokens, serializePayload } from './utils.js';
+
+/**
+ * Tool invocation details passed to a reducer
+ */
+export interface ToolResultContext {
+    toolName: string;
+    toolCallId: string;
+    args: unknown;
+    maxResultTokens: number;
+}
+
+/**
+ * How context management treats one tool's invocations
+ */
+export interface ToolContextPolicy {
+    /**
+     * Results estimated above this many tokens are reduced by the filter strategy
+     */
+    maxResultTokens?: number;
+
+    /**
+     * Reduces an oversized result (default: truncateToolResult)
+     */
+    reducer?: (result: unknown, context: ToolResultContext) => unknown | Promise<unknown>;
+
+    /**
+     * Whether invocations may be offloaded (default: true)
+     */
+    offload?: boolean;
+
+    /**
+     * Whether invocations may be summarized (default: true)
+     */
+    summarize?: boolean;
+
+    /**
+     * Keep the last N results of this tool out of offload and summarize
+     */
+    keepRecent?: number;
+}
+
+/**
+ * Tool policies keyed by tool name - the key the tool is registered under in the agent's
+ * `tools`, matched against `toolInvocation.toolName`
+ */
+export type ToolPolicies = Record<string, ToolContextPolicy>;
+
+/**
+ * Names of the tools invoked in a message
+ */
+function getToolNames(msg: MastraDBMessage): string[] {
+    return Array.isArray(msg.content.parts)
+        ? msg.content.parts.flatMap(part =>
+              part.type === 'tool-invocation' ? [part.toolInvocation.toolName] : []
+          )
+        : [];
+}
+
+/**
+ * Add the tool policies to a retention policy for the summarize or offload split
+ * Invocations of tools with `[strategy]: false` are always kept, and `keepRecent`
+ * becomes a per-tool `keepToolResults` limit
+ */
+export function applyToolPoliciesToRetention(
+    retention: RetentionPolicy,
+    policies: ToolPolicies,
+    strategy: 'summarize' | 'offload'
+): RetentionPolicy {
+    const entries = Object.entries(policies);
+    const pinnedTools = new Set(
+        entries.filter(([, policy]) => policy[strategy] === false).map(([name]) => name)
+    );
+    const toolLimits = entries.flatMap(([name, policy]) =>
+        policy.keepRecent === undefined ? [] : [[name, policy.keepRecent] as const]
+    );
+    if (pinnedTools.size === 0 && toolLimits.length === 0) {
+        return retention;
+    }
+
+    return combineRetentionPolicies(retention, {
+        keepRecent: 0,
+        keepReasoning: retention.keepReasoning,
+        pinnedMetadataKeys: [],
+        ...(toolLimits.length > 0 && { keepToolResults: Object.fromEntries(toolLimits) }),
+        ...(pinnedTools.size > 0 && {
+            keep: msg => getToolNames(msg).some(name => pinnedTools.has(name)),
+        }),
+    });
+}
+
+/**
+ * Reduce tool results above their policy's maxResultTokens
+ * Returns undefined when nothing changed
+ */
+export async function applyToolResultPolicies(
+    messages: MastraDBMessage[],
+    policies: ToolPolicies,
+    options: { estimateTokens?: (text: string) => number } = {}
+): Promise<MastraDBMessage[] | undefined> {
+    const { estimateTokens = estimateTextTokens } = options;
+    let changed = false;
+
+    const reducePart = async (part: ToolInvocationPart): Promise<ToolInvocationPart> => {
+        const invocation = part.toolInvocation;
+        const policy = policies[invocation.toolName];
+        if (invocation.state !== 'result' || policy?.maxResultTokens === undefined) {
+            return part;
+        }
+
+        const { maxResultTokens, reducer } = policy;
+        if (estimateTokens(serializePayload(invocation.result)) <= maxResultTokens) {
+            return part;
+        }
+
+        const result = reducer
+            ? await reducer(invocation.result, {
+                  toolName: invocation.toolName,
+                  toolCallId: invocation.toolCallId,
+                  args: invocation.args,
+                  maxResultTokens,
+              })
+            : truncateToolResult(invocation.result, { maxResultTokens }, estimateTokens);
+        if (result === invocation.result) {
+            return part;
+        }
+
+        changed = true;
+        return { ...part, toolInvocation: { ...invocation, result } } as ToolInvocationPart;
+    };
+
+    const reduced = await Promise.all(
+        messages.map(async msg => {
+            if (!Array.isArray(msg.content.parts)) {
+                return msg;
+            }
+
+            const parts = await Promise.all(
+                msg.content.parts.map(part =>
+                    part.type === 'tool-invocation' ? reducePart(part) : part
+                )
+            );
+            return parts.every((part, index) => part === msg.content.parts[index])
+                ? msg
+                : { ...msg, content: { ...msg.content, parts } };
+        })
+    );
+
+    return changed ? reduced : undefined;
+}
+
+/**
+ * Whether any policy reduces results, i.e. the filter strategy has work to do
+ */
+export function hasToolResultPolicies(policies: ToolPolicies): boolean {
+    return Object.values(policies).some(policy => policy.maxResultTokens !== undefined);
+}
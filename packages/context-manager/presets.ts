@@ -57,3 +57,21 @@ export const aggressivePreset: ContextManagerConfig = {
         summarizeEvery: 10,
     },
 };
+
+/**
+ * Adaptive preset - balanced thresholds expressed as a share of the context window
+ * Good for: Agents that switch between models with different context windows
+ */
+export const adaptivePreset: ContextManagerConfig = {
+    thresholds: {
+        filter: '30%',
+        compact: '40%',
+        summarize: '55%',
+        offload: '50%',
+    },
+    stepTriggers: {
+        minStepsForCompact: 10,
+        minStepsForOffload: 5,
+        summarizeEvery: 20,
+    },
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'bun:test';
+import { createRecallTool, sliceArtifactContent } from './recall.js';
+import { createInMemoryArtifactStore, formatArtifactReference } from './artifacts.js';
+
+describe('recall', () => {
+    describe('sliceArtifactContent', () => {
+        const content = 'line 1\nline 2\nline 3\nline 4';
+
+        it('should return full content without a range', () => {
+            expect(sliceArtifactContent(content)).toBe(content);
+        });
+
+        it('should slice by inclusive 1-based line range', () => {
+            expect(sliceArtifactContent(content, { startLine: 2, endLine: 3 })).toBe(
+                'line 2\nline 3'
+            );
+            expect(sliceArtifactContent(content, { startLine: 4 })).toBe('line 4');
+        });
+
+        it('should slice by byte range', () => {
+            expect(sliceArtifactContent(content, { startByte: 0, endByte: 4 })).toBe('line');
+            expect(sliceArtifactContent('héllo', { startByte: 1, endByte: 3 })).toBe('é');
+        });
+    });
+
+    describe('createRecallTool', () => {
+        const runTool = (tool: ReturnType<typeof createRecallTool>, input: any) =>
+            (tool.execute as any)(input, {});
+
+        it('should return the original content for a reference id', async () => {
+            const store = createInMemoryArtifactStore();
+            const id = await store.put('first\nsecond\nthird');
+            const tool = createRecallTool(store);
+
+            const result = await runTool(tool, { ref: id });
+
+            expect(result).toEqual({
+                ref: id,
+                found: true,
+                content: 'first\nsecond\nthird',
+                totalLines: 3,
+                totalBytes: 18,
+            });
+        });
+
+        it('should accept the full reference marker and apply ranges', async () => {
+            const store = createInMemoryArtifactStore();
+            const id = await store.put('first\nsecond\nthird');
+            const tool = createRecallTool(store);
+
+            const result = await runTool(tool, {
+                ref: formatArtifactReference(id),
+                startLine: 2,
+                endLine: 2,
+            });
+
+            expect(result.ref).toBe(id);
+            expect(result.content).toBe('second');
+        });
+
+        it('should report unknown references as not found', async () => {
+            const tool = createRecallTool(createInMemoryArtifactStore());
+            const result = await runTool(tool, { ref: 'artifact_missing' });
+            expect(result.found).toBe(false);
+            expect(result.content).toBe('');
+        });
+
+        it('should allow overriding the tool id', () => {
+            const tool = createRecallTool(createInMemoryArtifactStore(), { id: 'fetch-context' });
+            expect(tool.id).toBe('fetch-context');
+        });
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Recall tool for content moved out of context
+ *
+ * Compact and offload handlers leave `ref: artifact_...` markers in the message history.
+ * Give the agent this tool so it can fetch the original content back when it needs it.
+ *
+ * @example
+ * ```typescript
+ * const store = createInMemoryArtifactStore();
+ * const agent = new Agent({
+ *   tools: { recall: createRecallTool(store) },
+ *   inputProcessors: [
+ *     createContextManager({
+ *       handlers: { compact: createToolOutputCompactor({ store }) },
+ *     }).processor,
+ *   ],
+ * });
+ * ```
+ */
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import type { ArtifactStore } from './artifacts.js';
+import { extractArtifactReferences } from './artifacts.js';
+
+/**
+ * Optional slice of an artifact - lines are 1-based and inclusive, bytes are 0-based and end-exclusive
+ */
+export interface ArtifactRange {
+    startLine?: number;
+    endLine?: number;
+    startByte?: number;
+    endByte?: number;
+}
+
+/**
+ * Slice artifact content by line range, then by UTF-8 byte range
+ */
+export function sliceArtifactContent(content: string, range: ArtifactRange = {}): string {
+    let sliced = content;
+
+    if (range.startLine !== undefined || range.endLine !== undefined) {
+        const lines = sliced.split('\n');
+        sliced = lines.slice((range.startLine ?? 1) - 1, range.endLine ?? lines.length).join('\n');
+    }
+
+    if (range.startByte !== undefined || range.endByte !== undefined) {
+        sliced = Buffer.from(sliced, 'utf-8')
+            .subarray(range.startByte ?? 0, range.endByte)
+            .toString('utf-8');
+    }
+
+    return sliced;
+}
+
+/**
+ * Creates a Mastra tool that returns the original content behind an artifact reference
+ */
+export function createRecallTool(
+    store: ArtifactStore,
+    options: { id?: string; description?: string } = {}
+) {
+    return createTool({
+        id: options.id ?? 'recall-artifact',
+        description:
+            options.description ??
+            'Fetch content that was moved out of context. Pass the artifact id from a "ref: artifact_..." marker. Use line or byte ranges to read large artifacts in pieces.',
+        inputSchema: z.object({
+            ref: z.string().describe('Artifact id (e.g. "artifact_1a2b3c4d5e6f7a8b")'),
+            startLine: z
+                .number()
+                .int()
+                .min(1)
+                .optional()
+                .describe('First line to return (1-based)'),
+            endLine: z.number().int().min(1).optional().describe('Last line to return (inclusive)'),
+            startByte: z.number().int().min(0).optional().describe('First byte to return'),
+            endByte: z.number().int().min(0).optional().describe('Byte to stop before'),
+        }),
+        outputSchema: z.object({
+            ref: z.string(),
+            found: z.boolean(),
+            content: z.string(),
+            totalLines: z.number(),
+            totalBytes: z.number(),
+        }),
+        execute: async ({ ref, ...range }) => {
+            // Accept a raw id or the full "ref: artifact_..." marker
+            const id = extractArtifactReferences(ref)[0] ?? ref.trim();
+            const artifact = await store.get(id);
+
+            if (!artifact) {
+                return { ref: id, found: false, content: '', totalLines: 0, totalBytes: 0 };
+            }
+
+            return {
+                ref: id,
+                found: true,
+                content: sliceArtifactContent(artifact.content, range),
+                totalLines: artifact.content.split('\n').length,
+                totalBytes: Buffer.byteLength(artifact.content, 'utf-8'),
+            };
+        },
+    });
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'bun:test';
+import { combineRetentionPolicies, getRetainedIndices, partitionMessages } from './retention.js';
+import { getMessageText, stringToContentV2 } from './utils.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+const createMessage = (
+    id: string,
+    role: 'user' | 'assistant' | 'system' = 'assistant',
+    metadata?: Record<string, unknown>
+): MastraDBMessage => ({
+    id,
+    role,
+    content: { ...stringToContentV2(`Message ${id}`), metadata },
+    createdAt: new Date(),
+});
+
+const createToolMessage = (
+    id: string,
+    toolName: string,
+    state: 'call' | 'result',
+    toolCallId = `call-${id}`
+): MastraDBMessage => ({
+    id,
+    role: 'assistant',
+    content: {
+        format: 2,
+        parts: [
+            {
+                type: 'tool-invocation',
+                toolInvocation: {
+                    state,
+                    toolCallId,
+                    toolName,
+                    args: {},
+                    ...(state === 'result' && { result: 'output' }),
+                },
+            } as MastraDBMessage['content']['parts'][number],
+        ],
+    },
+    createdAt: new Date(),
+});
+const createToolResult = (id: string, toolName: string) =>
+    createToolMessage(id, toolName, 'result');
+
+const retainedIds = (
+    messages: MastraDBMessage[],
+    policy: Parameters<typeof partitionMessages>[1]
+) => partitionMessages(messages, policy).kept.map(m => m.id);
+
+describe('retention', () => {
+    const conversation = [
+        createMessage('sys', 'system'),
+        createMessage('task', 'user'),
+        createMessage('a1'),
+        createMessage('u2', 'user'),
+        createMessage('a2'),
+        createMessage('a3'),
+    ];
+
+    describe('partitionMessages', () => {
+        it('should keep the last 5 messages by default', () => {
+            const { kept, released } = partitionMessages(conversation);
+            expect(kept.map(m => m.id)).toEqual(['task', 'a1', 'u2', 'a2', 'a3']);
+            expect(released.map(m => m.id)).toEqual(['sys']);
+        });
+
+        it('should keep messages by role', () => {
+            expect(
+                retainedIds(conversation, {
+                    keepRecent: 0,
+                    keepUserMessages: true,
+                    keepSystemMessages: true,
+                })
+            ).toEqual(['sys', 'task', 'u2']);
+        });
+
+        it('should keep the first user message', () => {
+            expect(
+                retainedIds(conversation, { keepRecent: 1, keepFirstUserMessage: true })
+            ).toEqual(['task', 'a3']);
+        });
+
+        it('should keep pinned messages by id and by metadata flag', () => {
+            const messages = [
+                createMessage('plan'),
+                createMessage('note', 'assistant', { pinned: true }),
+                createMessage('flagged', 'assistant', { important: true }),
+                createMessage('last'),
+            ];
+            expect(retainedIds(messages, { keepRecent: 1, pinnedIds: ['plan'] })).toEqual([
+                'plan',
+                'note',
+                'last',
+            ]);
+            expect(
+                retainedIds(messages, { keepRecent: 0, pinnedMetadataKeys: ['important'] })
+            ).toEqual(['flagged']);
+        });
+
+        it('should apply per-role recency windows', () => {
+            expect(
+                retainedIds(conversation, { keepRecent: 0, keepRecentByRole: { user: 1 } })
+            ).toEqual(['u2']);
+            expect(
+                retainedIds(conversation, { keepRecent: 0, keepRecentByRole: { assistant: 2 } })
+            ).toEqual(['a2', 'a3']);
+        });
+
+        it('should keep the last N tool results per tool name', () => {
+            const messages = [
+                createToolResult('r1', 'readFile'),
+                createToolResult('b1', 'bash'),
+                createToolResult('r2', 'readFile'),
+                createToolResult('b2', 'bash'),
+                createToolResult('r3', 'readFile'),
+            ];
+            expect(retainedIds(messages, { keepRecent: 0, keepToolResults: 1 })).toEqual([
+                'b2',
+                'r3',
+            ]);
+            expect(
+                retainedIds(messages, { keepRecent: 0, keepToolResults: { readFile: 2, '*': 0 } })
+            ).toEqual(['r2', 'r3']);
+        });
+
+        it('should keep a tool call and its result on the same side', () => {
+            const messages = [
+                createMessage('task', 'user'),
+                createToolMessage('call', 'bash', 'call', 'c1'),
+                createToolMessage('result', 'bash', 'result', 'c1'),
+                createMessage('a1'),
+            ];
+            const { kept, released } = partitionMessages(messages, { keepRecent: 2 });
+            expect(kept.map(m => m.id)).toEqual(['call', 'result', 'a1']);
+            expect(released.map(m => m.id)).toEqual(['task']);
+        });
+
+        it('should follow chains of tool pairs pulled into the kept side', () => {
+            const both = createToolMessage('both', 'bash', 'result', 'c1');
+            both.content.parts.push(createToolMessage('x', 'bash', 'call', 'c2').content.parts[0]);
+            const messages = [
+                createToolMessage('call-1', 'bash', 'call', 'c1'),
+                both,
+                createToolMessage('result-2', 'bash', 'result', 'c2'),
+                createMessage('a1'),
+            ];
+            expect(retainedIds(messages, { keepRecent: 0, pinnedIds: ['result-2'] })).toEqual([
+                'call-1',
+                'both',
+                'result-2',
+            ]);
+        });
+
+        it('should keep high scorers and release the rest lowest score first', () => {
+            const scores = [0.9, 0.2, 0.5, 0.1, 0.3, 1];
+            const { kept, released } = partitionMessages(
+                conversation,
+                { keepRecent: 1, keepAboveScore: 0.8 },
+                scores
+            );
+            expect(kept.map(m => m.id)).toEqual(['sys', 'a3']);
+            expect(released.map(m => m.id)).toEqual(['u2', 'task', 'a2', 'a1']);
+        });
+
+        it('should keep messages matching a predicate', () => {
+            expect(
+                retainedIds(conversation, {
+                    keepRecent: 0,
+                    keep: [
+                        msg => getMessageText(msg).endsWith('a1'),
+                        (_msg, { index, messages }) => index === messages.length - 2,
+                    ],
+                })
+            ).toEqual(['a1', 'a2']);
+        });
+    });
+
+    describe('combineRetentionPolicies', () => {
+        it('should keep what any of the policies keeps', () => {
+            const combined = combineRetentionPolicies(
+                { keepRecent: 1, pinnedIds: ['a1'] },
+                { keepRecent: 0, keepSystemMessages: true, keepToolResults: { bash: 1 } }
+            );
+            expect(retainedIds(conversation, combined)).toEqual(['sys', 'a1', 'a3']);
+            expect(combined.keepToolResults).toEqual({ bash: 1, '*': 0 });
+        });
+
+        it('should only drop reasoning when every policy drops it', () => {
+            expect(
+                combineRetentionPolicies({ keepReasoning: false }, {}).keepReasoning
+            ).toBeUndefined();
+            expect(
+                combineRetentionPolicies({ keepReasoning: false }, { keepReasoning: false })
+                    .keepReasoning
+            ).toBe(false);
+        });
+    });
+
+    it('should return retained indices in getRetainedIndices', () => {
+        expect([...getRetainedIndices(conversation, { keepRecent: 2 })].sort()).toEqual([4, 5]);
+    });
+});
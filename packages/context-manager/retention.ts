@@ -0,0 +1,324 @@
+/**
+ * Retention policies
+ *
+ * Decide which messages the offload and summarize splits keep in context. A message is
+ * kept when any rule in the policy keeps it; everything else is handed to the handler
+ * as `messagesToOffload` / `oldMessages`. The split is turn-aware: a tool call and its
+ * result are always on the same side.
+ *
+ * @example
+ * ```typescript
+ * const { processor } = createContextManager({
+ *   retention: {
+ *     keepRecent: 5,
+ *     keepFirstUserMessage: true,
+ *     pinnedIds: ['plan'],
+ *     keepRecentByRole: { user: 10 },
+ *     keepToolResults: { readFile: 2, '*': 1 },
+ *     keep: msg => getMessageText(msg).includes('TODO'),
+ *   },
+ * });
+ * ```
+ */
+
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import { isToolMessage } from './utils.js';
+
+/**
+ * Roles a recency window can be set for
+ */
+export type RetentionRole = 'user' | 'assistant' | 'system' | 'tool';
+
+/**
+ * Where a message sits in the list being partitioned
+ */
+export interface RetentionContext {
+    index: number;
+    messages: MastraDBMessage[];
+}
+
+/**
+ * Custom rule - return true to keep the message
+ */
+export type RetentionPredicate = (msg: MastraDBMessage, context: RetentionContext) => boolean;
+
+/**
+ * Declarative retention rules, combined with OR
+ */
+export interface RetentionPolicy {
+    /**
+     * Keep the last N messages (default: 5)
+     */
+    keepRecent?: number;
+
+    /**
+     * Keep the last N messages of a role, e.g. `{ user: 10 }`
+     */
+    keepRecentByRole?: Partial<Record<RetentionRole, number>>;
+
+    /**
+     * Keep every user message (default: true)
+     */
+    keepUserMessages?: boolean;
+
+    /**
+     * Keep every system message (default: true)
+     */
+    keepSystemMessages?: boolean;
+
+    /**
+     * Keep 'tool' role messages and messages with tool invocations (default: false)
+     */
+    keepToolMessages?: boolean;
+
+    /**
+     * Keep reasoning parts from earlier turns in the messages offload and summarize
+     * keep (default: true); false drops them and keeps only the current turn's
+     */
+    keepReasoning?: boolean;
+
+    /**
+     * Keep the first user message - usually the task statement (default: false)
+     */
+    keepFirstUserMessage?: boolean;
+
+    /**
+     * Always keep messages with these ids
+     */
+    pinnedIds?: string[];
+
+    /**
+     * Always keep messages whose `content.metadata[key]` is truthy (default: ['pinned'])
+     */
+    pinnedMetadataKeys?: string[];
+
+    /**
+     * Keep the messages holding the last N tool results per tool name
+     * A number applies to every tool; in a map, '*' applies to tools not listed
+     */
+    keepToolResults?: number | Record<string, number>;
+
+    /**
+     * Keep messages scoring at or above this (0-1) - needs a `scorer` in the config
+     */
+    keepAboveScore?: number;
+
+    /**
+     * Custom rules - a message is kept when any of them returns true
+     */
+    keep?: RetentionPredicate | RetentionPredicate[];
+}
+
+/**
+ * Messages split by a retention policy, each side in original order - or, when scores
+ * are given, released messages lowest score first
+ */
+export interface RetentionPartition {
+    kept: MastraDBMessage[];
+    released: MastraDBMessage[];
+}
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+    value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const toolResultLimit = (
+    limits: RetentionPolicy['keepToolResults'],
+    toolName: string
+): number | undefined =>
+    typeof limits === 'number' ? limits : (limits?.[toolName] ?? limits?.['*']);
+
+/**
+ * Extend the retained set so a tool call and its result never land on opposite sides
+ * of the split - a kept call pulls in its result and a kept result pulls in its call
+ */
+function keepToolPairsTogether(messages: MastraDBMessage[], retained: Set<number>): void {
+    const byToolCallId = new Map<string, number[]>();
+    messages.forEach((msg, index) => {
+        if (!Array.isArray(msg.content.parts)) {
+            return;
+        }
+        for (const part of msg.content.parts) {
+            if (part.type === 'tool-invocation') {
+                const indices = byToolCallId.get(part.toolInvocation.toolCallId) ?? [];
+                byToolCallId.set(part.toolInvocation.toolCallId, [...indices, index]);
+            }
+        }
+    });
+
+    // A pulled-in message may hold other calls, so repeat until nothing changes
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const indices of byToolCallId.values()) {
+            if (indices.some(index => retained.has(index))) {
+                for (const index of indices) {
+                    if (!retained.has(index)) {
+                        retained.add(index);
+                        changed = true;
+                    }
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Indices of the messages a policy keeps
+ * Tool calls and their results are always kept or released together
+ * `scores` (one per message, from a MessageScorer) are used by keepAboveScore
+ */
+export function getRetainedIndices(
+    messages: MastraDBMessage[],
+    policy: RetentionPolicy = {},
+    scores?: number[]
+): Set<number> {
+    const {
+        keepRecent = 5,
+        keepRecentByRole = {},
+        pinnedIds = [],
+        pinnedMetadataKeys = ['pinned'],
+        keepToolResults,
+    } = policy;
+    const retained = new Set<number>();
+    const pinned = new Set(pinnedIds);
+    const predicates = toArray(policy.keep);
+
+    messages.forEach((msg, index) => {
+        const metadata = msg.content.metadata ?? {};
+        if (
+            index >= messages.length - keepRecent ||
+            (policy.keepUserMessages === true && msg.role === 'user') ||
+            (policy.keepSystemMessages === true && msg.role === 'system') ||
+            (policy.keepToolMessages === true && isToolMessage(msg)) ||
+            pinned.has(msg.id) ||
+            pinnedMetadataKeys.some(key => Boolean(metadata[key])) ||
+            (policy.keepAboveScore !== undefined &&
+                scores !== undefined &&
+                scores[index] >= policy.keepAboveScore) ||
+            predicates.some(predicate => predicate(msg, { index, messages }))
+        ) {
+            retained.add(index);
+        }
+    });
+
+    if (policy.keepFirstUserMessage) {
+        const first = messages.findIndex(msg => msg.role === 'user');
+        if (first !== -1) {
+            retained.add(first);
+        }
+    }
+
+    // Recency windows per role and per tool, counted from the end
+    const roleCounts = new Map<string, number>();
+    const toolCounts = new Map<string, number>();
+    for (let index = messages.length - 1; index >= 0; index--) {
+        const msg = messages[index];
+        const role = msg.role as RetentionRole;
+        const roleCount = (roleCounts.get(role) ?? 0) + 1;
+        roleCounts.set(role, roleCount);
+        if (roleCount <= (keepRecentByRole[role] ?? 0)) {
+            retained.add(index);
+        }
+
+        if (keepToolResults === undefined || !Array.isArray(msg.content.parts)) {
+            continue;
+        }
+        for (const part of msg.content.parts) {
+            if (part.type !== 'tool-invocation' || part.toolInvocation.state !== 'result') {
+                continue;
+            }
+            const { toolName } = part.toolInvocation;
+            const toolCount = (toolCounts.get(toolName) ?? 0) + 1;
+            toolCounts.set(toolName, toolCount);
+            if (toolCount <= (toolResultLimit(keepToolResults, toolName) ?? 0)) {
+                retained.add(index);
+            }
+        }
+    }
+
+    keepToolPairsTogether(messages, retained);
+    return retained;
+}
+
+/**
+ * Split messages into those a policy keeps and those it releases to the handler
+ */
+export function partitionMessages(
+    messages: MastraDBMessage[],
+    policy: RetentionPolicy = {},
+    scores?: number[]
+): RetentionPartition {
+    const retained = getRetainedIndices(messages, policy, scores);
+    const kept: MastraDBMessage[] = [];
+    const released: number[] = [];
+
+    messages.forEach((msg, index) => {
+        if (retained.has(index)) {
+            kept.push(msg);
+        } else {
+            released.push(index);
+        }
+    });
+    if (scores) {
+        // Stable: equal scores stay in chronological order
+        released.sort((a, b) => scores[a] - scores[b]);
+    }
+    return { kept, released: released.map(index => messages[index]) };
+}
+
+/**
+ * Combine policies so a message is kept when any of them keeps it
+ * Reasoning is only dropped when every policy drops it
+ */
+export function combineRetentionPolicies(...policies: RetentionPolicy[]): RetentionPolicy {
+    const max = (values: (number | undefined)[]) => {
+        const defined = values.filter((value): value is number => value !== undefined);
+        return defined.length > 0 ? Math.max(...defined) : undefined;
+    };
+    const any = (
+        key: 'keepUserMessages' | 'keepSystemMessages' | 'keepToolMessages' | 'keepFirstUserMessage'
+    ) => policies.some(policy => policy[key] === true) || undefined;
+
+    const roles = new Set(policies.flatMap(policy => Object.keys(policy.keepRecentByRole ?? {})));
+    const tools = new Set(
+        policies.flatMap(policy =>
+            typeof policy.keepToolResults === 'object' ? Object.keys(policy.keepToolResults) : []
+        )
+    );
+    const toolLimits = policies.map(policy => policy.keepToolResults);
+
+    return {
+        keepRecent: max(policies.map(policy => policy.keepRecent ?? 5)),
+        keepRecentByRole: Object.fromEntries(
+            [...roles].map(role => [
+                role,
+                max(policies.map(policy => policy.keepRecentByRole?.[role as RetentionRole])),
+            ])
+        ),
+        keepUserMessages: any('keepUserMessages'),
+        keepSystemMessages: any('keepSystemMessages'),
+        keepToolMessages: any('keepToolMessages'),
+        keepFirstUserMessage: any('keepFirstUserMessage'),
+        keepReasoning: policies.every(policy => policy.keepReasoning === false) ? false : undefined,
+        keepAboveScore: policies.some(policy => policy.keepAboveScore !== undefined)
+            ? Math.min(
+                  ...policies.flatMap(policy =>
+                      policy.keepAboveScore === undefined ? [] : [policy.keepAboveScore]
+                  )
+              )
+            : undefined,
+        pinnedIds: [...new Set(policies.flatMap(policy => policy.pinnedIds ?? []))],
+        pinnedMetadataKeys: [
+            ...new Set(policies.flatMap(policy => policy.pinnedMetadataKeys ?? ['pinned'])),
+        ],
+        keepToolResults: toolLimits.some(limits => limits !== undefined)
+            ? Object.fromEntries(
+                  [...tools, '*'].map(tool => [
+                      tool,
+                      max(toolLimits.map(limits => toolResultLimit(limits, tool))) ?? 0,
+                  ])
+              )
+            : undefined,
+        keep: policies.flatMap(policy => toArray(policy.keep)),
+    };
+}
@@ -0,0 +1,256 @@
+import { describe, it, expect, mock } from 'bun:test';
+import {
+    chunkText,
+    createInMemoryVectorIndex,
+    createRetriever,
+    isRetrievalMessage,
+} from './retrieval.js';
+import { createHashEmbedder } from './embeddings.js';
+import { createContextManager } from './index.js';
+import { getMessageText, stringToContentV2 } from './utils.js';
+import { MessageList } from '@mastra/core/agent/message-list';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import { ProcessorRunner } from '@mastra/core/processors';
+import type { ProcessInputStepArgs, RunProcessInputStepArgs } from '@mastra/core/processors';
+import { noopLogger } from '@mastra/core/logger';
+
+const createMessage = (
+    id: string,
+    role: 'user' | 'assistant' | 'system',
+    text: string
+): MastraDBMessage => ({
+    id,
+    role,
+    content: stringToContentV2(text),
+    createdAt: new Date(),
+});
+
+const createArgs = (stepNumber: number, messages: MastraDBMessage[]): ProcessInputStepArgs => ({
+    messages,
+    messageList: {} as any,
+    stepNumber,
+    steps: [],
+    systemMessages: [],
+    model: 'anthropic/claude-sonnet-4-5',
+    abort: () => {
+        throw new Error('Aborted');
+    },
+    tracingContext: undefined,
+    requestContext: undefined,
+    retryCount: 0,
+});
+
+describe('retrieval', () => {
+    const embedder = createHashEmbedder();
+    const history = [
+        createMessage(
+            'db',
+            'assistant',
+            'The database password rotation runs every monday at noon'
+        ),
+        createMessage('css', 'assistant', 'Button colors come from the theme palette in styles'),
+        createMessage('deploy', 'assistant', 'Deploys go through the staging cluster first'),
+    ];
+
+    describe('chunkText', () => {
+        it('should split on line boundaries and hard-split long lines', () => {
+            expect(chunkText('aaa\nbbb\nccc', 7)).toEqual(['aaa\nbbb', 'ccc']);
+            expect(chunkText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+            expect(chunkText('  \n\n')).toEqual([]);
+        });
+    });
+
+    describe('createInMemoryVectorIndex', () => {
+        it('should return the most similar records first and replace by id', async () => {
+            const index = createInMemoryVectorIndex();
+            await index.upsert([
+                { id: 'a', vector: [1, 0], text: 'a' },
+                { id: 'b', vector: [0, 1], text: 'b' },
+                { id: 'c', vector: [1, 1], text: 'c' },
+            ]);
+            await index.upsert([{ id: 'b', vector: [0.9, 0.1], text: 'b2' }]);
+
+            const matches = await index.query([1, 0], { topK: 2 });
+            expect(matches.map(match => match.id)).toEqual(['a', 'b']);
+            expect(matches[1].text).toBe('b2');
+        });
+    });
+
+    describe('createRetriever', () => {
+        it('should inject the best match before the latest user message', async () => {
+            const retriever = createRetriever({ embedder, topK: 1 });
+            expect(await retriever.index(history, { stepNumber: 4 })).toBe(3);
+
+            const messages = [
+                createMessage('sys', 'system', 'You are helpful'),
+                createMessage('q', 'user', 'When does the database password rotation run?'),
+            ];
+            const result = (await retriever.retrieve(messages, { stepNumber: 9 }))!;
+
+            expect(result.injectedSnippets).toBe(1);
+            expect(result.messages.map(m => m.id)).toEqual(['sys', 'retrieval-9', 'q']);
+            const text = getMessageText(result.messages[1]);
+            expect(text).toStartWith('[Retrieved context:');
+            expect(text).toContain('--- assistant, removed at step 4 ---');
+            expect(text).toContain('password rotation runs every monday');
+            expect(text).not.toContain('theme palette');
+            expect(isRetrievalMessage(result.messages[1])).toBe(true);
+        });
+
+        it('should replace the previous retrieval message instead of accumulating', async () => {
+            const retriever = createRetriever({ embedder });
+            await retriever.index(history, { stepNumber: 1 });
+            const question = createMessage('q', 'user', 'Which cluster do deploys go through?');
+
+            const first = (await retriever.retrieve([question], { stepNumber: 2 }))!;
+            const second = (await retriever.retrieve(first.messages, { stepNumber: 3 }))!;
+
+            expect(second.messages.filter(isRetrievalMessage).map(m => m.id)).toEqual([
+                'retrieval-3',
+            ]);
+        });
+
+        it('should respect the token budget and minimum score', async () => {
+            const retriever = createRetriever({ embedder, maxTokens: 5 });
+            await retriever.index(history, { stepNumber: 1 });
+            const question = [createMessage('q', 'user', 'database password rotation')];
+
+            expect(await retriever.retrieve(question, { stepNumber: 2 })).toBeUndefined();
+
+            const strict = createRetriever({ embedder, minScore: 0.99 });
+            await strict.index(history, { stepNumber: 1 });
+            expect(await strict.retrieve(question, { stepNumber: 2 })).toBeUndefined();
+        });
+
+        it('should not embed the query while the index is empty', async () => {
+            const embed = mock(embedder.embed);
+            const retriever = createRetriever({ embedder: { embed } });
+
+            expect(
+                await retriever.retrieve([createMessage('q', 'user', 'Hello')], { stepNumber: 1 })
+            ).toBeUndefined();
+            expect(embed).not.toHaveBeenCalled();
+        });
+
+        it('should skip matches whose message is still in context', async () => {
+            const retriever = createRetriever({ embedder });
+            await retriever.index(history, { stepNumber: 1 });
+
+            expect(
+                await retriever.retrieve(
+                    [history[0], createMessage('q', 'user', 'database password rotation monday')],
+                    { stepNumber: 2 }
+                )
+            ).toBeUndefined();
+        });
+    });
+
+    describe('orchestrator', () => {
+        it('should index offloaded messages and bring relevant ones back', async () => {
+            const { processor, getLastReport } = createContextManager({
+                handlers: {
+                    offload: async ({ messagesToKeep }) => messagesToKeep,
+                },
+                thresholds: { offload: 1 },
+                stepTriggers: { minStepsForOffload: 1 },
+                retention: { keepRecent: 1, keepUserMessages: false },
+                tokenCounter: async () => 1000,
+                retrieval: { embedder },
+            });
+
+            const result = await processor.processInputStep?.(
+                createArgs(5, [
+                    ...history,
+                    createMessage('q', 'user', 'When does the database password rotation run?'),
+                ])
+            );
+
+            expect(result?.messages?.map(m => m.id)).toEqual(['q']);
+            expect(result?.systemMessages?.[0].content).toContain(
+                'password rotation runs every monday'
+            );
+            expect(getLastReport()?.retrieval).toEqual({ indexedChunks: 3, injectedSnippets: 1 });
+        });
+
+        it('should keep one retrieval message in a real message list across steps', async () => {
+            const { processor } = createContextManager({
+                handlers: {
+                    offload: async ({ messagesToKeep }) => messagesToKeep,
+                },
+                thresholds: { offload: 1 },
+                stepTriggers: { minStepsForOffload: 1 },
+                retention: { keepRecent: 1, keepUserMessages: false },
+                tokenCounter: async () => 1000,
+                retrieval: { embedder, topK: 1 },
+            });
+            const runner = new ProcessorRunner({
+                inputProcessors: [processor],
+                logger: noopLogger,
+                agentName: 'test',
+            });
+            const messageList = new MessageList();
+            messageList.addSystem('You are helpful');
+            const runStep = (stepNumber: number, added: MastraDBMessage[]) => {
+                messageList.add(added, 'input');
+                return runner.runProcessInputStep({
+                    messageList,
+                    stepNumber,
+                    steps: [],
+                } as unknown as RunProcessInputStepArgs);
+            };
+
+            // Alternating roles - the message list merges consecutive assistant messages
+            await runStep(1, [
+                history[0],
+                createMessage('ok', 'user', 'Thanks'),
+                history[2],
+                createMessage('q1', 'user', 'When does the database password rotation run?'),
+            ]);
+            expect(messageList.getSystemMessages()[1]?.content).toContain('password rotation');
+
+            await runStep(2, [
+                createMessage('a1', 'assistant', 'On mondays'),
+                createMessage('q2', 'user', 'Which cluster do deploys go through?'),
+            ]);
+
+            const system = messageList.getSystemMessages().map(msg => String(msg.content));
+            expect(system).toHaveLength(2);
+            expect(system[0]).toBe('You are helpful');
+            expect(system[1]).toStartWith('[Retrieved context:');
+            expect(system[1]).toContain('staging cluster');
+            expect(messageList.get.all.db().map(m => m.id)).toEqual(['q2']);
+        });
+
+        it('should report embedder failures without failing the step', async () => {
+            const { processor, getLastReport } = createContextManager({
+                handlers: {
+                    offload: async ({ messagesToKeep }) => messagesToKeep,
+                },
+                thresholds: { offload: 1 },
+                stepTriggers: { minStepsForOffload: 1 },
+                retention: { keepRecent: 1, keepUserMessages: false },
+                tokenCounter: async () => 1000,
+                retrieval: {
+                    embedder: {
+                        embed: async () => {
+                            throw new Error('embedding service down');
+                        },
+                    },
+                },
+            });
+
+            const result = await processor.processInputStep?.(
+                createArgs(1, [...history, createMessage('q', 'user', 'Hello')])
+            );
+
+            expect((result as { messages: MastraDBMessage[] }).messages.map(m => m.id)).toEqual([
+                'q',
+            ]);
+            expect(getLastReport()?.retrieval).toEqual({
+                indexedChunks: 0,
+                injectedSnippets: 0,
+                error: 'embedding service down',
+            });
+        });
+    });
+});
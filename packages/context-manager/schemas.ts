@@ -0,0 +1,207 @@
+/**
+ * Zod schemas for MastraDBMessage and its part types
+ *
+ * Handler results are checked against handlerResultSchema before they replace the context.
+ * Objects are loose, so provider metadata and fields added by newer Mastra versions pass
+ * through; only the fields the orchestrator and providers rely on are checked.
+ */
+
+import { z } from 'zod';
+
+const partExtensions = {
+    providerMetadata: z.record(z.string(), z.unknown()).optional(),
+    createdAt: z.number().optional(),
+};
+
+const describeInput = (input: unknown) =>
+    typeof input === 'string' ? `"${input}"` : input === undefined ? 'missing' : typeof input;
+
+export const textPartSchema = z.looseObject({
+    type: z.literal('text'),
+    text: z.string({ error: 'text part is missing its text' }),
+    ...partExtensions,
+});
+
+export const reasoningPartSchema = z.looseObject({
+    type: z.literal('reasoning'),
+    reasoning: z.string({ error: 'reasoning part is missing its reasoning' }),
+    details: z.array(z.unknown()).optional(),
+    ...partExtensions,
+});
+
+export const filePartSchema = z.looseObject({
+    type: z.literal('file'),
+    mimeType: z.string({ error: 'file part is missing its mimeType' }),
+    data: z.string({ error: 'file part data must be a string' }),
+    ...partExtensions,
+});
+
+export const sourcePartSchema = z.looseObject({
+    type: z.literal('source'),
+    source: z.looseObject(
+        {
+            sourceType: z.string(),
+            id: z.string(),
+            url: z.string(),
+            title: z.string().optional(),
+        },
+        { error: 'source part is missing its source' }
+    ),
+    ...partExtensions,
+});
+
+export const sourceDocumentPartSchema = z.looseObject({
+    type: z.literal('source-document'),
+    sourceId: z.string(),
+    mediaType: z.string(),
+    title: z.string(),
+    filename: z.string().optional(),
+    ...partExtensions,
+});
+
+export const stepStartPartSchema = z.looseObject({
+    type: z.literal('step-start'),
+    model: z.string().optional(),
+    ...partExtensions,
+});
+
+export const errorPartSchema = z.looseObject({
+    type: z.literal('error'),
+    error: z.looseObject(
+        { name: z.string(), message: z.string() },
+        { error: 'error part is missing its error' }
+    ),
+    ...partExtensions,
+});
+
+/**
+ * Custom data parts (`data-${name}`)
+ */
+export const dataPartSchema = z.looseObject({
+    type: z.templateLiteral(['data-', z.string()]),
+    id: z.string().optional(),
+    data: z.unknown().refine(data => data !== undefined, 'data part is missing its data'),
+    ...partExtensions,
+});
+
+const toolInvocationFields = {
+    toolCallId: z.string({ error: 'tool invocation is missing its toolCallId' }).min(1, {
+        error: 'tool invocation has an empty toolCallId',
+    }),
+    toolName: z.string({ error: 'tool invocation is missing its toolName' }).min(1, {
+        error: 'tool invocation has an empty toolName',
+    }),
+    // Typed as `any` by Mastra - streamed and legacy calls may carry no args or raw strings
+    args: z.unknown().optional(),
+    step: z.number().optional(),
+};
+
+/**
+ * A tool call or its result - void tools and failed calls produce results without a value
+ */
+export const toolInvocationSchema = z.discriminatedUnion(
+    'state',
+    [
+        z.looseObject({
+            ...toolInvocationFields,
+            state: z.enum([
+                'partial-call',
+                'call',
+                'approval-requested',
+                'approval-responded',
+                'output-error',
+                'output-denied',
+            ]),
+        }),
+        z.looseObject({
+            ...toolInvocationFields,
+            state: z.literal('result'),
+            result: z.unknown().optional(),
+            isError: z.boolean().optional(),
+            errorText: z.string().optional(),
+        }),
+    ],
+    {
+        error: iss =>
+            iss.code === 'invalid_union'
+                ? `unknown tool invocation state ${describeInput((iss.input as { state?: unknown })?.state)}`
+                : 'tool-invocation part is missing its toolInvocation',
+    }
+);
+
+export const toolInvocationPartSchema = z.looseObject({
+    type: z.literal('tool-invocation'),
+    toolInvocation: toolInvocationSchema,
+    providerExecuted: z.boolean().optional(),
+    ...partExtensions,
+});
+
+const knownPartSchema = z.discriminatedUnion(
+    'type',
+    [
+        textPartSchema,
+        reasoningPartSchema,
+        filePartSchema,
+        sourcePartSchema,
+        sourceDocumentPartSchema,
+        stepStartPartSchema,
+        errorPartSchema,
+        toolInvocationPartSchema,
+    ],
+    {
+        error: iss =>
+            iss.code === 'invalid_union'
+                ? `unknown part type ${describeInput((iss.input as { type?: unknown })?.type)}`
+                : undefined,
+    }
+);
+
+/**
+ * Any message part - built-in types by their `type`, custom `data-*` parts by prefix
+ */
+export const messagePartSchema = z
+    .looseObject(
+        {
+            type: z.string({
+                error: iss => `part type must be a string, got ${describeInput(iss.input)}`,
+            }),
+        },
+        { error: 'part is not an object' }
+    )
+    .superRefine((part, ctx) => {
+        const schema = part.type.startsWith('data-') ? dataPartSchema : knownPartSchema;
+        // Re-raise with the original code and a path relative to this part
+        for (const issue of schema.safeParse(part).error?.issues ?? []) {
+            ctx.addIssue({ ...issue, input: part } as z.core.$ZodRawIssue);
+        }
+    });
+
+export const messageContentSchema = z.looseObject(
+    {
+        format: z.literal(2, { error: 'content format is not 2' }),
+        parts: z.array(messagePartSchema, { error: 'content.parts is not an array' }),
+        metadata: z.record(z.string(), z.unknown()).optional(),
+    },
+    { error: 'missing or invalid content' }
+);
+
+export const mastraDBMessageSchema = z.looseObject(
+    {
+        id: z.string({ error: 'missing or invalid id' }).min(1, { error: 'missing or invalid id' }),
+        role: z.enum(['user', 'assistant', 'system', 'tool'], {
+            error: iss => `invalid role ${describeInput(iss.input)}`,
+        }),
+        content: messageContentSchema,
+        createdAt: z.date({ error: 'createdAt is not a Date' }),
+        threadId: z.string().optional(),
+        resourceId: z.string().optional(),
+    },
+    { error: 'message is not an object' }
+);
+
+/**
+ * What a strategy handler may return to replace the context
+ */
+export const handlerResultSchema = z
+    .array(mastraDBMessageSchema, { error: 'Handler returned non-array value' })
+    .min(1, { error: 'Handler returned empty array (should return undefined to skip)' });
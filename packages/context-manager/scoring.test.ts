@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'bun:test';
+import {
+    combineScorers,
+    createDefaultScorer,
+    createEmbeddingScorer,
+    createRecencyScorer,
+    createReferenceScorer,
+    createSizeScorer,
+    createToolErrorScorer,
+    isToolErrorMessage,
+} from './scoring.js';
+import { createHashEmbedder } from './embeddings.js';
+import { stringToContentV2 } from './utils.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+const createMessage = (
+    id: string,
+    text: string,
+    role: 'user' | 'assistant' = 'assistant'
+): MastraDBMessage => ({
+    id,
+    role,
+    content: stringToContentV2(text),
+    createdAt: new Date(),
+});
+
+const createToolResult = (id: string, result: unknown, isError?: boolean): MastraDBMessage => ({
+    id,
+    role: 'assistant',
+    content: {
+        format: 2,
+        parts: [
+            {
+                type: 'tool-invocation',
+                toolInvocation: {
+                    state: 'result',
+                    toolCallId: `call-${id}`,
+                    toolName: 'bash',
+                    args: {},
+                    result,
+                    isError,
+                },
+            },
+        ],
+    },
+    createdAt: new Date(),
+});
+
+describe('scoring', () => {
+    it('should score newer messages higher', () => {
+        const messages = ['1', '2', '3'].map(id => createMessage(id, id));
+        expect(createRecencyScorer()(messages)).toEqual([0, 0.5, 1]);
+    });
+
+    it('should score bulky messages lower', () => {
+        const messages = [createMessage('1', 'a'.repeat(400)), createMessage('2', 'a'.repeat(100))];
+        expect(createSizeScorer()(messages)).toEqual([0, 0.75]);
+    });
+
+    it('should score failed tool calls 0', () => {
+        const messages = [
+            createToolResult('1', 'Error: command not found'),
+            createToolResult('2', { error: 'ENOENT' }),
+            createToolResult('3', 'oops', true),
+            createToolResult('4', 'ok'),
+        ];
+        expect(messages.map(isToolErrorMessage)).toEqual([true, true, true, false]);
+        expect(createToolErrorScorer()(messages)).toEqual([0, 0, 0, 1]);
+    });
+
+    it('should score messages referenced later 1', () => {
+        const messages = [
+            createMessage('1', 'Contents of src/config.ts: export const port = 3000'),
+            createMessage('2', 'Listed 40 files'),
+            createMessage('3', 'Updating src/config.ts to use port 8080'),
+        ];
+        expect(createReferenceScorer()(messages)).toEqual([1, 0, 0]);
+    });
+
+    it('should match later mentions of message and tool call ids as whole identifiers', () => {
+        const messages = [
+            createToolResult('read', 'file contents'),
+            createMessage('msg-42', 'Noted'),
+            createMessage('msg-4', 'Noted'),
+            createMessage('5', 'As shown by call-read, see msg-42.'),
+        ];
+        expect(createReferenceScorer()(messages)).toEqual([1, 1, 0, 0]);
+    });
+
+    it('should score messages by similarity to the latest user message', async () => {
+        const scorer = createEmbeddingScorer({ embedder: createHashEmbedder() });
+        const messages = [
+            createMessage('1', 'database migration failed on the users table'),
+            createMessage('2', 'weather forecast sunny'),
+            createMessage('3', 'why did the users table migration fail', 'user'),
+        ];
+        const [related, unrelated, query] = await scorer(messages);
+
+        expect(related).toBeGreaterThan(unrelated);
+        expect(query).toBeCloseTo(1);
+    });
+
+    it('should combine scorers as a weighted average', async () => {
+        const messages = ['1', '2', '3'].map(id => createMessage(id, id));
+        const scorer = combineScorers([
+            { scorer: createRecencyScorer(), weight: 3 },
+            () => [1, 1, 1],
+        ]);
+        expect(await scorer(messages)).toEqual([0.25, 0.625, 1]);
+    });
+
+    it('should rank a stale bulky tool error below recent small messages', async () => {
+        const messages = [
+            createMessage('task', 'Fix the build', 'user'),
+            createToolResult('error', `Error: ${'stack frame\n'.repeat(200)}`),
+            createMessage('reply', 'Retrying with the right flags'),
+        ];
+        const [task, error, reply] = await createDefaultScorer()(messages);
+        expect(error).toBeLessThan(task);
+        expect(error).toBeLessThan(reply);
+    });
+});
@@ -0,0 +1,199 @@
+/**
+ * Message scoring
+ *
+ * A MessageScorer rates how much each message is worth keeping, from 0 (release first)
+ * to 1. With a `scorer` configured, the offload and summarize splits hand released
+ * messages to the handler lowest score first, and `retention.keepAboveScore` keeps
+ * high-value messages regardless of position.
+ *
+ * @example
+ * ```typescript
+ * const { processor } = createContextManager({
+ *   scorer: combineScorers([
+ *     createDefaultScorer(),
+ *     { scorer: createEmbeddingScorer({ embedder }), weight: 2 },
+ *   ]),
+ *   retention: { keepRecent: 5, keepAboveScore: 0.8 },
+ * });
+ * ```
+ */
+
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { Embedder } from './embeddings.js';
+import { cosineSimilarity } from './embeddings.js';
+import { estimateTokensDefault, getMessageText } from './utils.js';
+
+/**
+ * Score every message in context, in order - higher means more worth keeping
+ */
+export type MessageScorer = (
+    messages: MastraDBMessage[],
+    options?: { abortSignal?: AbortSignal }
+) => number[] | Promise<number[]>;
+
+/**
+ * A scorer and its weight in combineScorers (default weight: 1)
+ */
+export interface WeightedScorer {
+    scorer: MessageScorer;
+    weight?: number;
+}
+
+/**
+ * Newer messages score higher: 0 for the oldest, 1 for the newest
+ */
+export function createRecencyScorer(): MessageScorer {
+    return messages =>
+        messages.map((_msg, index) => (messages.length === 1 ? 1 : index / (messages.length - 1)));
+}
+
+/**
+ * Bulky messages score lower: 1 for the smallest, 0 for the largest
+ */
+export function createSizeScorer(
+    options: { countTokens?: (msg: MastraDBMessage) => number } = {}
+): MessageScorer {
+    const { countTokens = (msg: MastraDBMessage) => estimateTokensDefault([msg]) } = options;
+
+    return messages => {
+        const sizes = messages.map(countTokens);
+        const max = Math.max(0, ...sizes);
+        return sizes.map(size => (max === 0 ? 1 : 1 - size / max));
+    };
+}
+
+/**
+ * Whether a message holds a failed tool call - an error state, an error flag, or a
+ * result that is an error object or starts with "Error"
+ */
+export function isToolErrorMessage(msg: MastraDBMessage): boolean {
+    if (!Array.isArray(msg.content.parts)) {
+        return false;
+    }
+    return msg.content.parts.some(part => {
+        if (part.type !== 'tool-invocation') {
+            return false;
+        }
+        const invocation = part.toolInvocation;
+        if (invocation.state === 'output-error' || invocation.isError || invocation.errorText) {
+            return true;
+        }
+        if (invocation.state !== 'result') {
+            return false;
+        }
+        const { result } = invocation as { result?: unknown };
+        return typeof result === 'string'
+            ? /^\s*(error|exception)\b/i.test(result)
+            : Boolean(result && typeof result === 'object' && 'error' in result);
+    });
+}
+
+/**
+ * Failed tool calls score 0 - once the agent has moved on they are mostly noise
+ */
+export function createToolErrorScorer(): MessageScorer {
+    return messages => messages.map(msg => (isToolErrorMessage(msg) ? 0 : 1));
+}
+
+// File paths and names (src/index.ts, README.md)
+const PATH_PATTERN = /[\w@.-]*\/[\w@./-]+|\b[\w-]+\.[a-z]{1,5}\b/gi;
+
+// Runs of characters an id, tool call id or path is made of
+const MENTION_PATTERN = /[\w@./-]+/g;
+
+/**
+ * Identifiers a text mentions - word-like runs without trailing punctuation, and paths
+ */
+function getMentions(text: string): string[] {
+    return [
+        ...(text.match(MENTION_PATTERN) ?? []).map(run => run.replace(/[.-]+$/, '')),
+        ...(text.match(PATH_PATTERN) ?? []),
+    ];
+}
+
+/**
+ * Messages referenced by later messages score 1, others 0
+ * A reference is a later mention of the message id, one of its tool call ids, or a file
+ * path it contains
+ */
+export function createReferenceScorer(): MessageScorer {
+    return messages => {
+        const scores = new Array<number>(messages.length).fill(0);
+        // Identifiers mentioned by the messages after the current one
+        const mentioned = new Set<string>();
+
+        for (let index = messages.length - 1; index >= 0; index--) {
+            const msg = messages[index];
+            const text = getMessageText(msg);
+            const toolCallIds = Array.isArray(msg.content.parts)
+                ? msg.content.parts.flatMap(part =>
+                      part.type === 'tool-invocation' ? [part.toolInvocation.toolCallId] : []
+                  )
+                : [];
+            const identifiers = [msg.id, ...toolCallIds, ...(text.match(PATH_PATTERN) ?? [])];
+
+            scores[index] = identifiers.some(id => id.length > 3 && mentioned.has(id)) ? 1 : 0;
+            for (const mention of getMentions(text)) {
+                mentioned.add(mention);
+            }
+        }
+
+        return scores;
+    };
+}
+
+/**
+ * Messages similar to the latest user message score higher (cosine similarity, floored at 0)
+ * Without a user message every message scores 1
+ */
+export function createEmbeddingScorer(options: { embedder: Embedder }): MessageScorer {
+    const { embedder } = options;
+
+    return async (messages, { abortSignal } = {}) => {
+        const query = messages.findLast(msg => msg.role === 'user');
+        if (!query) {
+            return messages.map(() => 1);
+        }
+
+        const vectors = await embedder.embed(
+            [getMessageText(query), ...messages.map(msg => getMessageText(msg))],
+            { abortSignal }
+        );
+        const [queryVector, ...messageVectors] = vectors;
+        return messageVectors.map(vector => Math.max(0, cosineSimilarity(queryVector, vector)));
+    };
+}
+
+/**
+ * Weighted average of several scorers
+ */
+export function combineScorers(scorers: Array<MessageScorer | WeightedScorer>): MessageScorer {
+    const weighted = scorers.map(entry =>
+        typeof entry === 'function'
+            ? { scorer: entry, weight: 1 }
+            : { scorer: entry.scorer, weight: entry.weight ?? 1 }
+    );
+    const totalWeight = weighted.reduce((sum, { weight }) => sum + weight, 0);
+
+    return async (messages, options) => {
+        const results = await Promise.all(weighted.map(({ scorer }) => scorer(messages, options)));
+        return messages.map((_msg, index) =>
+            totalWeight === 0
+                ? 0
+                : results.reduce((sum, scores, i) => sum + scores[index] * weighted[i].weight, 0) /
+                  totalWeight
+        );
+    };
+}
+
+/**
+ * The built-in heuristics combined: recency (weight 2), size, tool errors and references
+ */
+export function createDefaultScorer(): MessageScorer {
+    return combineScorers([
+        { scorer: createRecencyScorer(), weight: 2 },
+        createSizeScorer(),
+        createToolErrorScorer(),
+        createReferenceScorer(),
+    ]);
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect, mock } from 'bun:test';
+import {
+    createLLMSummarizer,
+    isSummaryMessage,
+    SUMMARY_METADATA_KEY,
+    DEFAULT_SUMMARY_PROMPT,
+} from './summarization.js';
+import { createContextManager } from './index.js';
+import { stringToContentV2, getMessageText } from './utils.js';
+import { ProcessorRunner } from '@mastra/core/processors';
+import type { ProcessInputStepArgs, RunProcessInputStepArgs } from '@mastra/core/processors';
+import { MessageList } from '@mastra/core/agent/message-list';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import { noopLogger } from '@mastra/core/logger';
+
+describe('createLLMSummarizer', () => {
+    const createMessage = (
+        id: string,
+        role: 'user' | 'assistant' | 'system',
+        content: string
+    ): MastraDBMessage => ({
+        id,
+        role,
+        content: stringToContentV2(content),
+        createdAt: new Date(),
+    });
+
+    const createArgs = (
+        stepNumber: number,
+        oldMessages: MastraDBMessage[],
+        recentMessages: MastraDBMessage[]
+    ) =>
+        ({
+            messages: [...oldMessages, ...recentMessages],
+            stepNumber,
+            estimatedTokens: 0,
+            oldMessages,
+            recentMessages,
+        }) as unknown as ProcessInputStepArgs & {
+            estimatedTokens: number;
+            oldMessages: MastraDBMessage[];
+            recentMessages: MastraDBMessage[];
+        };
+
+    const createModel = (text: string) => ({
+        generate: mock(async (_prompt: string, _options?: any) => ({ text })),
+    });
+
+    it('should summarize old messages and keep recent ones', async () => {
+        const model = createModel('User wants a report.');
+        const summarize = createLLMSummarizer({ model, maxSummaryTokens: 300 });
+        const recent = [createMessage('3', 'user', 'Recent')];
+
+        const result = await summarize(
+            createArgs(
+                20,
+                [
+                    createMessage('1', 'user', 'Write a report'),
+                    createMessage('2', 'assistant', 'Sure'),
+                ],
+                recent
+            )
+        );
+
+        expect(result).toHaveLength(2);
+        expect(result![0].role).toBe('system');
+        expect(getMessageText(result![0])).toBe('User wants a report.');
+        expect(isSummaryMessage(result![0])).toBe(true);
+        expect(result![0].content.metadata?.[SUMMARY_METADATA_KEY]).toEqual({
+            stepNumber: 20,
+            summarizedCount: 2,
+        });
+        expect(result![1]).toBe(recent[0]);
+
+        const [prompt, options] = model.generate.mock.calls[0];
+        expect(prompt).toContain(DEFAULT_SUMMARY_PROMPT);
+        expect(prompt).toContain('[user]: Write a report');
+        expect(prompt).toContain('[assistant]: Sure');
+        expect(options).toEqual({ modelSettings: { maxOutputTokens: 300 } });
+    });
+
+    it('should keep retained messages that came before the summarized ones in front', async () => {
+        const summarize = createLLMSummarizer({ model: createModel('Summary') });
+        const system = createMessage('sys', 'system', 'You are helpful');
+        const task = createMessage('task', 'user', 'Write a report');
+        const old = [
+            createMessage('1', 'assistant', 'Step 1'),
+            createMessage('2', 'assistant', 'Step 2'),
+        ];
+        const recent = createMessage('3', 'assistant', 'Step 3');
+
+        const result = await summarize({
+            ...createArgs(20, old, [system, task, recent]),
+            messages: [system, task, ...old, recent],
+        });
+
+        expect(result?.map(m => m.id)).toEqual(['sys', 'task', 'summary-20', '3']);
+    });
+
+    it('should write the transcript in conversation order when old messages arrive ranked', async () => {
+        const model = createModel('Summary');
+        const first = createMessage('1', 'user', 'First');
+        const second = createMessage('2', 'assistant', 'Second');
+
+        const result = await createLLMSummarizer({ model })({
+            ...createArgs(20, [second, first], []),
+            messages: [first, second],
+        });
+
+        const [prompt] = model.generate.mock.calls[0];
+        expect(prompt.indexOf('First')).toBeLessThan(prompt.indexOf('Second'));
+        expect(result![0].createdAt).toBe(first.createdAt);
+    });
+
+    it('should pass the abort signal to the model', async () => {
+        const model = createModel('Summary');
+        const abortSignal = new AbortController().signal;
+
+        await createLLMSummarizer({ model })({
+            ...createArgs(20, [createMessage('1', 'user', 'Old')], []),
+            abortSignal,
+        });
+        expect(model.generate.mock.calls[0][1]?.abortSignal).toBe(abortSignal);
+    });
+
+    it('should fold an earlier summary into a single rolling summary', async () => {
+        const first = createLLMSummarizer({ model: createModel('First summary') });
+        const firstResult = await first(
+            createArgs(20, [createMessage('1', 'user', 'Old')], [createMessage('2', 'user', 'A')])
+        );
+
+        const model = createModel('Rolling summary');
+        const second = createLLMSummarizer({ model });
+        const result = await second(
+            createArgs(
+                40,
+                [firstResult![0], createMessage('2', 'user', 'A')],
+                [createMessage('3', 'user', 'B')]
+            )
+        );
+
+        expect(result!.filter(isSummaryMessage)).toHaveLength(1);
+        expect(getMessageText(result![0])).toBe('Rolling summary');
+        expect(result![0].content.metadata?.[SUMMARY_METADATA_KEY]).toEqual({
+            stepNumber: 40,
+            summarizedCount: 2,
+        });
+
+        const [prompt] = model.generate.mock.calls[0];
+        expect(prompt).toContain('Previous summary:\nFirst summary');
+        expect(prompt).not.toContain('[system]: First summary');
+    });
+
+    it('should keep one rolling summary in a real message list across steps', async () => {
+        let count = 0;
+        const model = {
+            generate: mock(async (_prompt: string) => ({ text: `Summary ${++count}` })),
+        };
+        const { processor } = createContextManager({
+            handlers: { summarize: createLLMSummarizer({ model }) },
+            thresholds: { summarize: 1 },
+            stepTriggers: { summarizeEvery: 1 },
+            retention: { keepRecent: 1, keepUserMessages: false },
+            tokenCounter: async () => 1000,
+        });
+        const runner = new ProcessorRunner({
+            inputProcessors: [processor],
+            logger: noopLogger,
+            agentName: 'test',
+        });
+        const messageList = new MessageList();
+        messageList.addSystem('You are helpful');
+        messageList.add(
+            [
+                { role: 'user', content: 'Write a report' },
+                { role: 'assistant', content: 'Sure' },
+                { role: 'user', content: 'Go' },
+            ],
+            'input'
+        );
+        const runStep = (stepNumber: number) =>
+            runner.runProcessInputStep({
+                messageList,
+                stepNumber,
+                steps: [],
+            } as unknown as RunProcessInputStepArgs);
+
+        await runStep(1);
+        messageList.add(
+            [
+                { role: 'assistant', content: 'Done' },
+                { role: 'user', content: 'More' },
+            ],
+            'input'
+        );
+        await runStep(2);
+
+        expect(messageList.getSystemMessages().map(msg => msg.content)).toEqual([
+            'You are helpful',
+            'Summary 2',
+        ]);
+        expect(messageList.get.all.db().map(msg => getMessageText(msg))).toEqual(['More']);
+        expect(model.generate.mock.calls[1][0]).toContain('Previous summary:\nSummary 1');
+    });
+
+    it('should use a custom prompt', async () => {
+        const model = createModel('Summary');
+        const summarize = createLLMSummarizer({ model, prompt: 'Summarize tersely.' });
+        await summarize(createArgs(20, [createMessage('1', 'user', 'Old')], []));
+        const [prompt] = model.generate.mock.calls[0];
+        expect(prompt.startsWith('Summarize tersely.')).toBe(true);
+        expect(prompt).not.toContain(DEFAULT_SUMMARY_PROMPT);
+    });
+
+    it('should skip when only summaries are old', async () => {
+        const model = createModel('Summary');
+        const summarize = createLLMSummarizer({ model });
+        const summary = createMessage('s', 'system', 'Existing');
+        summary.content.metadata = { [SUMMARY_METADATA_KEY]: { summarizedCount: 3 } };
+
+        const result = await summarize(createArgs(20, [summary], []));
+
+        expect(result).toBeUndefined();
+        expect(model.generate).not.toHaveBeenCalled();
+    });
+
+    it('should skip when the model returns empty text', async () => {
+        const summarize = createLLMSummarizer({ model: createModel('   ') });
+        const result = await summarize(createArgs(20, [createMessage('1', 'user', 'Old')], []));
+        expect(result).toBeUndefined();
+    });
+
+    it('should propagate model errors so the orchestrator can report them', async () => {
+        const summarize = createLLMSummarizer({
+            model: { generate: async () => Promise.reject(new Error('rate limited')) },
+        });
+        await expect(
+            summarize(createArgs(20, [createMessage('1', 'user', 'Old')], []))
+        ).rejects.toThrow('rate limited');
+    });
+});
@@ -0,0 +1,156 @@
+/**
+ * Built-in summarize handler backed by an LLM
+ *
+ * Summarizes `oldMessages` with a Mastra model and folds any earlier summary into the new
+ * one, so long runs carry a single rolling summary instead of a stack of them.
+ *
+ * @example
+ * ```typescript
+ * const { processor } = createContextManager({
+ *   handlers: {
+ *     summarize: createLLMSummarizer({ model: 'openai/gpt-4o-mini', maxSummaryTokens: 800 }),
+ *   },
+ * });
+ * ```
+ */
+
+import { Agent } from '@mastra/core/agent';
+import type { MastraModelConfig } from '@mastra/core/llm';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { ContextStrategyHandlers } from './types.js';
+import { getMessageText, insertReplacement, stringToContentV2 } from './utils.js';
+
+/**
+ * Metadata key (on `content.metadata`) that marks a message as a rolling summary
+ */
+export const SUMMARY_METADATA_KEY = 'contextorSummary';
+
+/**
+ * Anything that can generate text from a prompt - a Mastra Agent satisfies this
+ */
+export interface SummaryModel {
+    generate: (
+        prompt: string,
+        options?: { modelSettings?: { maxOutputTokens?: number }; abortSignal?: AbortSignal }
+    ) => Promise<{ text: string }>;
+}
+
+/**
+ * Options for createLLMSummarizer
+ */
+export interface LLMSummarizerOptions {
+    /**
+     * Model used to write summaries - a model id/config, or an Agent (or mock) with `generate`
+     */
+    model: MastraModelConfig | SummaryModel;
+
+    /**
+     * Instructions placed before the transcript (default: DEFAULT_SUMMARY_PROMPT)
+     */
+    prompt?: string;
+
+    /**
+     * Upper bound on summary length, passed to the model as maxOutputTokens (default: 1000)
+     */
+    maxSummaryTokens?: number;
+}
+
+/**
+ * Default summarization instructions
+ */
+export const DEFAULT_SUMMARY_PROMPT = `Summarize the conversation below so an AI agent can continue the task without the original messages.
+Keep: the user's goal and constraints, decisions made, important facts and identifiers (file paths, ids, commands), results of tool calls, and open questions or next steps.
+Drop: pleasantries, repetition and raw tool output that is no longer needed.
+If a previous summary is provided, merge it with the new messages into one updated summary.`;
+
+/**
+ * Check whether a message is a summary produced by createLLMSummarizer
+ */
+export function isSummaryMessage(msg: MastraDBMessage): boolean {
+    return Boolean(msg.content.metadata?.[SUMMARY_METADATA_KEY]);
+}
+
+/**
+ * Render messages as a plain-text transcript for the summarization prompt
+ */
+function formatTranscript(messages: MastraDBMessage[]): string {
+    return messages.map(msg => `[${msg.role}]: ${getMessageText(msg)}`).join('\n\n');
+}
+
+/**
+ * Creates a summarize handler that writes one rolling summary message with an LLM
+ */
+export function createLLMSummarizer(
+    options: LLMSummarizerOptions
+): NonNullable<ContextStrategyHandlers['summarize']> {
+    const { prompt = DEFAULT_SUMMARY_PROMPT, maxSummaryTokens = 1000 } = options;
+
+    const summaryModel: SummaryModel =
+        typeof options.model === 'object' && 'generate' in options.model
+            ? options.model
+            : new Agent({
+                  id: 'context-summarizer',
+                  name: 'Context Summarizer',
+                  instructions: 'You write concise, factual summaries of agent conversations.',
+                  model: options.model,
+              });
+
+    return async ({ messages, oldMessages, recentMessages, stepNumber, abortSignal }) => {
+        const previousSummaries = [...oldMessages, ...recentMessages].filter(isSummaryMessage);
+        // Old messages may arrive ranked by score - summarize them in conversation order
+        const positions = new Map(messages.map((msg, index) => [msg.id, index]));
+        const toSummarize = oldMessages
+            .filter(msg => !isSummaryMessage(msg))
+            .sort((a, b) => (positions.get(a.id) ?? 0) - (positions.get(b.id) ?? 0));
+
+        if (toSummarize.length === 0) {
+            return undefined;
+        }
+
+        const sections = [
+            prompt,
+            `Keep the summary under ${maxSummaryTokens} tokens.`,
+            previousSummaries.length > 0
+                ? `Previous summary:\n${previousSummaries.map(msg => getMessageText(msg)).join('\n\n')}`
+                : undefined,
+            `New messages:\n${formatTranscript(toSummarize)}`,
+        ];
+
+        const { text } = await summaryModel.generate(sections.filter(Boolean).join('\n\n'), {
+            modelSettings: { maxOutputTokens: maxSummaryTokens },
+            abortSignal,
+        });
+
+        if (!text.trim()) {
+            return undefined;
+        }
+
+        const previousCount = previousSummaries.reduce((sum, msg) => {
+            const meta = msg.content.metadata?.[SUMMARY_METADATA_KEY] as
+                { summarizedCount?: number } | undefined;
+            return sum + (meta?.summarizedCount ?? 0);
+        }, 0);
+
+        const summary: MastraDBMessage = {
+            id: `summary-${stepNumber}`,
+            role: 'system',
+            content: {
+                ...stringToContentV2(text.trim()),
+                metadata: {
+                    [SUMMARY_METADATA_KEY]: {
+                        stepNumber,
+                        summarizedCount: previousCount + toSummarize.length,
+                    },
+                },
+            },
+            createdAt: toSummarize[0].createdAt,
+        };
+
+        return insertReplacement(
+            messages,
+            recentMessages.filter(msg => !isSummaryMessage(msg)),
+            summary,
+            toSummarize[0]
+        );
+    };
+}
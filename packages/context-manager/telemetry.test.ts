@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+    BasicTracerProvider,
+    InMemorySpanExporter,
+    SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import {
+    AggregationTemporality,
+    InMemoryMetricExporter,
+    MeterProvider,
+    PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
+import type { DataPoint, Histogram } from '@opentelemetry/sdk-metrics';
+import { createTelemetryHooks } from './telemetry.js';
+import { createContextManager } from './index.js';
+import type { StepReport } from './types.js';
+import { stringToContentV2 } from './utils.js';
+import type { ProcessInputStepArgs } from '@mastra/core/processors';
+
+describe('telemetry', () => {
+    let spanExporter: InMemorySpanExporter;
+    let metricExporter: InMemoryMetricExporter;
+    let meterProvider: MeterProvider;
+    let hooks: ReturnType<typeof createTelemetryHooks>;
+
+    const report: StepReport = {
+        stepNumber: 7,
+        modelId: 'openai/gpt-4o',
+        processed: true,
+        estimatedTokens: 5000,
+        finalTokens: 2000,
+        changed: true,
+        startedAt: 1_700_000_000_000,
+        durationMs: 40,
+        strategies: [
+            {
+                strategy: 'filter',
+                pass: 'threshold',
+                status: 'applied',
+                tokensBefore: 5000,
+                tokensAfter: 2000,
+                startedAt: 1_700_000_000_005,
+                durationMs: 20,
+            },
+            {
+                strategy: 'compact',
+                pass: 'threshold',
+                status: 'skipped',
+                reason: 'error',
+                error: 'store unavailable',
+                tokensBefore: 2000,
+                tokensAfter: 2000,
+                startedAt: 1_700_000_000_025,
+                durationMs: 10,
+            },
+        ],
+    };
+
+    const collectMetrics = async () => {
+        await meterProvider.forceFlush();
+        const metrics = metricExporter.getMetrics().flatMap(rm => rm.scopeMetrics)[0].metrics;
+        return Object.fromEntries(metrics.map(m => [m.descriptor.name, m.dataPoints]));
+    };
+
+    beforeEach(() => {
+        spanExporter = new InMemorySpanExporter();
+        const tracerProvider = new BasicTracerProvider({
+            spanProcessors: [new SimpleSpanProcessor(spanExporter)],
+        });
+        metricExporter = new InMemoryMetricExporter(AggregationTemporality.CUMULATIVE);
+        meterProvider = new MeterProvider({
+            readers: [
+                new PeriodicExportingMetricReader({
+                    exporter: metricExporter,
+                    exportIntervalMillis: 60_000,
+                }),
+            ],
+        });
+        hooks = createTelemetryHooks({
+            tracer: tracerProvider.getTracer('test'),
+            meter: meterProvider.getMeter('test'),
+            attributes: { 'agent.name': 'researcher' },
+        });
+    });
+
+    it('should emit a step span with a child span per strategy', async () => {
+        await hooks.onStepReport(report, {} as ProcessInputStepArgs);
+
+        const spans = spanExporter.getFinishedSpans();
+        const step = spans.find(s => s.name === 'context_manager.process_input_step')!;
+        const filter = spans.find(s => s.name === 'context_manager.strategy filter')!;
+        const compact = spans.find(s => s.name === 'context_manager.strategy compact')!;
+
+        expect(spans).toHaveLength(3);
+        expect(step.attributes).toMatchObject({
+            'agent.name': 'researcher',
+            'contextor.step_number': 7,
+            'contextor.model_id': 'openai/gpt-4o',
+            'contextor.tokens.before': 5000,
+            'contextor.tokens.after': 2000,
+        });
+        expect(filter.parentSpanContext?.spanId).toBe(step.spanContext().spanId);
+        expect(filter.attributes).toMatchObject({
+            'contextor.strategy': 'filter',
+            'contextor.strategy.status': 'applied',
+            'contextor.tokens.before': 5000,
+            'contextor.tokens.after': 2000,
+        });
+        expect(compact.attributes['contextor.strategy.reason']).toBe('error');
+        expect(compact.status).toEqual({
+            code: SpanStatusCode.ERROR,
+            message: 'store unavailable',
+        });
+    });
+
+    it('should mark timed-out strategies as errors', async () => {
+        await hooks.onStepReport(
+            {
+                ...report,
+                strategies: [
+                    {
+                        ...report.strategies[1],
+                        reason: 'timeout',
+                        error: 'Strategy compact timed out after 50ms',
+                    },
+                ],
+            },
+            {} as ProcessInputStepArgs
+        );
+
+        const compact = spanExporter
+            .getFinishedSpans()
+            .find(s => s.name === 'context_manager.strategy compact')!;
+        expect(compact.status).toEqual({
+            code: SpanStatusCode.ERROR,
+            message: 'Strategy compact timed out after 50ms',
+        });
+    });
+
+    it('should use report timings for span start and end', async () => {
+        await hooks.onStepReport(report, {} as ProcessInputStepArgs);
+
+        const filter = spanExporter
+            .getFinishedSpans()
+            .find(s => s.name === 'context_manager.strategy filter')!;
+        // [seconds, nanoseconds]
+        expect(filter.startTime).toEqual([1_700_000_000, 5_000_000]);
+        expect(filter.duration).toEqual([0, 20_000_000]);
+    });
+
+    it('should record tokens saved and latency metrics', async () => {
+        await hooks.onStepReport(report, {} as ProcessInputStepArgs);
+        const metrics = await collectMetrics();
+
+        expect(metrics['contextor.tokens.saved']).toHaveLength(1);
+        expect(metrics['contextor.tokens.saved'][0]).toMatchObject({
+            value: 3000,
+            attributes: { 'contextor.strategy': 'filter', 'agent.name': 'researcher' },
+        });
+        expect(metrics['contextor.strategy.runs']).toHaveLength(2);
+
+        const durations = metrics['contextor.strategy.duration'] as DataPoint<Histogram>[];
+        expect(durations.map(d => d.value.sum).sort()).toEqual([10, 20]);
+        expect(metrics['contextor.step.duration']).toHaveLength(1);
+    });
+
+    it('should instrument a context manager through onStepReport', async () => {
+        const { processor } = createContextManager({
+            handlers: { filter: async (args: any) => args.messages.slice(-1) },
+            thresholds: { filter: 0 },
+            hooks,
+            tokenCounter: async messages => messages.length * 100,
+        });
+        await processor.processInputStep?.({
+            messages: ['1', '2'].map(id => ({
+                id,
+                role: 'user' as const,
+                content: stringToContentV2(`Message ${id}`),
+                createdAt: new Date(),
+            })),
+            stepNumber: 1,
+        } as ProcessInputStepArgs);
+
+        const spans = spanExporter.getFinishedSpans().map(s => s.name);
+        expect(spans).toEqual([
+            'context_manager.strategy filter',
+            'context_manager.process_input_step',
+        ]);
+        const metrics = await collectMetrics();
+        expect(metrics['contextor.tokens.saved'][0].value).toBe(100);
+    });
+});
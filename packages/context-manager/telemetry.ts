@@ -0,0 +1,139 @@
+/**
+ * OpenTelemetry adapter
+ *
+ * Turns each StepReport into a span per processInputStep with a child span per strategy,
+ * plus metrics for tokens saved and handler latency. Uses the global tracer and meter
+ * providers unless you pass your own.
+ *
+ * @example
+ * ```typescript
+ * const { processor } = createContextManager({
+ *   handlers,
+ *   hooks: { ...createTelemetryHooks() },
+ * });
+ * ```
+ */
+
+import { context, metrics, trace, SpanStatusCode } from '@opentelemetry/api';
+import type { Attributes, Meter, Tracer } from '@opentelemetry/api';
+import type { ContextManagerHooks, StepReport, StrategyName } from './types.js';
+
+/**
+ * Instrumentation scope used for the default tracer and meter
+ */
+export const TELEMETRY_SCOPE = '@contextor-ai/core';
+
+/**
+ * Options for the telemetry adapter
+ */
+export interface TelemetryOptions {
+    /**
+     * Tracer for step and strategy spans (default: global tracer provider)
+     */
+    tracer?: Tracer;
+
+    /**
+     * Meter for counters and histograms (default: global meter provider)
+     */
+    meter?: Meter;
+
+    /**
+     * Extra attributes added to every span and metric (e.g. agent name)
+     */
+    attributes?: Attributes;
+}
+
+/**
+ * Create an onStepReport hook that records spans and metrics for every step
+ * Spread it into `hooks`, or call its onStepReport from your own hook
+ */
+export function createTelemetryHooks<TName extends string = StrategyName>(
+    options: TelemetryOptions = {}
+): Required<Pick<ContextManagerHooks<TName>, 'onStepReport'>> {
+    const {
+        tracer = trace.getTracer(TELEMETRY_SCOPE),
+        meter = metrics.getMeter(TELEMETRY_SCOPE),
+        attributes = {},
+    } = options;
+
+    const tokensSaved = meter.createCounter('contextor.tokens.saved', {
+        description: 'Tokens removed from the context by strategies',
+        unit: '{token}',
+    });
+    const strategyRuns = meter.createCounter('contextor.strategy.runs', {
+        description: 'Strategy evaluations by status and skip reason',
+    });
+    const strategyDuration = meter.createHistogram('contextor.strategy.duration', {
+        description: 'Strategy latency, including trigger evaluation and handler execution',
+        unit: 'ms',
+    });
+    const stepDuration = meter.createHistogram('contextor.step.duration', {
+        description: 'processInputStep latency',
+        unit: 'ms',
+    });
+
+    const recordStepReport = (report: StepReport<TName>) => {
+        const stepSpan = tracer.startSpan('context_manager.process_input_step', {
+            startTime: report.startedAt,
+            attributes: {
+                ...attributes,
+                'contextor.step_number': report.stepNumber,
+                'contextor.processed': report.processed,
+                'contextor.tokens.before': report.estimatedTokens,
+                'contextor.tokens.after': report.finalTokens,
+                'contextor.changed': report.changed,
+                ...(report.modelId && { 'contextor.model_id': report.modelId }),
+                ...(report.budget && {
+                    'contextor.budget.target_tokens': report.budget.targetTokens,
+                    'contextor.budget.met': report.budget.met,
+                }),
+            },
+        });
+        const parent = trace.setSpan(context.active(), stepSpan);
+
+        for (const entry of report.strategies) {
+            const strategyAttributes: Attributes = {
+                ...attributes,
+                'contextor.strategy': entry.strategy,
+                'contextor.strategy.status': entry.status,
+                ...(entry.reason && { 'contextor.strategy.reason': entry.reason }),
+            };
+
+            const span = tracer.startSpan(
+                `context_manager.strategy ${entry.strategy}`,
+                {
+                    startTime: entry.startedAt,
+                    attributes: {
+                        ...strategyAttributes,
+                        'contextor.strategy.pass': entry.pass,
+                        'contextor.tokens.before': entry.tokensBefore,
+                        'contextor.tokens.after': entry.tokensAfter,
+                    },
+                },
+                parent
+            );
+            if (
+                entry.reason === 'error' ||
+                entry.reason === 'timeout' ||
+                entry.reason === 'rolled-back'
+            ) {
+                span.setStatus({ code: SpanStatusCode.ERROR, message: entry.error });
+            }
+            span.end(entry.startedAt + entry.durationMs);
+
+            strategyRuns.add(1, strategyAttributes);
+            strategyDuration.record(entry.durationMs, strategyAttributes);
+            if (entry.status === 'applied' && entry.tokensBefore > entry.tokensAfter) {
+                tokensSaved.add(entry.tokensBefore - entry.tokensAfter, {
+                    ...attributes,
+                    'contextor.strategy': entry.strategy,
+                });
+            }
+        }
+
+        stepSpan.end(report.startedAt + report.durationMs);
+        stepDuration.record(report.durationMs, attributes);
+    };
+
+    return { onStepReport: recordStepReport };
+}
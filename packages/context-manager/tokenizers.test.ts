@@ -0,0 +1,167 @@
+import { describe, it, expect, mock } from 'bun:test';
+import {
+    createTokenizerRegistry,
+    createModelTokenCounter,
+    createTiktokenTokenizer,
+    countMessageTokens,
+    fallbackTokenizer,
+} from './tokenizers.js';
+import type { Tokenizer } from './tokenizers.js';
+import { stringToContentV2 } from './utils.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+
+describe('tokenizers', () => {
+    const wordTokenizer: Tokenizer = {
+        name: 'words',
+        countText: text => (text ? text.split(/\s+/).length : 0),
+    };
+
+    describe('createTokenizerRegistry', () => {
+        it('should pick o200k for gpt-4o model ids', async () => {
+            const registry = createTokenizerRegistry();
+            expect((await registry.resolve('openai/gpt-4o')).name).toBe('o200k_base');
+            expect((await registry.resolve('openai/o3-mini')).name).toBe('o200k_base');
+        });
+
+        it('should pick cl100k for older OpenAI model ids', async () => {
+            const registry = createTokenizerRegistry();
+            expect((await registry.resolve('gpt-4')).name).toBe('cl100k_base');
+            expect((await registry.resolve('openai/gpt-3.5-turbo')).name).toBe('cl100k_base');
+        });
+
+        it('should pick the Anthropic approximation for Claude model ids', async () => {
+            const registry = createTokenizerRegistry();
+            const tokenizer = await registry.resolve('anthropic/claude-sonnet-4-5');
+            expect(tokenizer.name).toBe('anthropic-approx');
+            const cl100k = await createTiktokenTokenizer('cl100k_base');
+            const text = '{"files": ["a.ts", "b.ts"], "count": 2}';
+            expect(tokenizer.countText(text)).toBeGreaterThan(cl100k.countText(text));
+        });
+
+        it('should use the fallback for unknown or missing model ids', async () => {
+            const registry = createTokenizerRegistry();
+            expect(await registry.resolve('mistral/large')).toBe(fallbackTokenizer);
+            expect(await registry.resolve(undefined)).toBe(fallbackTokenizer);
+        });
+
+        it('should let registered rules override the built-ins', async () => {
+            const registry = createTokenizerRegistry().register('gpt-4o', () => wordTokenizer);
+            expect(await registry.resolve('openai/gpt-4o')).toBe(wordTokenizer);
+            expect((await registry.resolve('gpt-4')).name).toBe('cl100k_base');
+        });
+
+        it('should create each tokenizer only once', async () => {
+            const factory = mock(() => wordTokenizer);
+            const registry = createTokenizerRegistry({ includeDefaults: false }).register(
+                /custom/,
+                factory
+            );
+            await registry.resolve('custom-1');
+            await registry.resolve('custom-2');
+            expect(factory).toHaveBeenCalledTimes(1);
+        });
+
+        it('should retry a tokenizer whose load failed', async () => {
+            const factory = mock(async () => wordTokenizer);
+            factory.mockImplementationOnce(async () => {
+                throw new Error('network down');
+            });
+            const registry = createTokenizerRegistry({ includeDefaults: false }).register(
+                /custom/,
+                factory
+            );
+
+            await expect(registry.resolve('custom-1')).rejects.toThrow('network down');
+            expect(await registry.resolve('custom-1')).toBe(wordTokenizer);
+            expect(factory).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('createTiktokenTokenizer', () => {
+        it('should count tokens with the real encoding', async () => {
+            const tokenizer = await createTiktokenTokenizer('o200k_base');
+            expect(tokenizer.countText('hello world')).toBe(2);
+        });
+
+        it('should not throw on special-token text', async () => {
+            const tokenizer = await createTiktokenTokenizer('cl100k_base');
+            expect(tokenizer.countText('<|endoftext|>')).toBeGreaterThan(1);
+        });
+    });
+
+    describe('countMessageTokens', () => {
+        it('should count text, tool-call, tool-result and image parts separately', () => {
+            const messages: MastraDBMessage[] = [
+                {
+                    id: '1',
+                    role: 'user',
+                    content: {
+                        format: 2,
+                        parts: [
+                            { type: 'text', text: 'read the file' },
+                            { type: 'file', mimeType: 'image/png', data: 'a'.repeat(5000) },
+                        ],
+                    },
+                    createdAt: new Date(),
+                },
+                {
+                    id: '2',
+                    role: 'assistant',
+                    content: {
+                        format: 2,
+                        parts: [
+                            {
+                                type: 'tool-invocation',
+                                toolInvocation: {
+                                    state: 'result',
+                                    toolCallId: 'c1',
+                                    toolName: 'readFile',
+                                    args: 'a b',
+                                    result: 'one two three four',
+                                },
+                            } as any,
+                        ],
+                    },
+                    createdAt: new Date(),
+                },
+            ];
+
+            const breakdown = countMessageTokens(messages, wordTokenizer, {
+                imageTokens: 500,
+                messageOverhead: 1,
+            });
+
+            expect(breakdown).toEqual({
+                text: 3,
+                toolCall: 3,
+                toolResult: 4,
+                image: 500,
+                other: 2,
+                total: 512,
+            });
+        });
+    });
+
+    describe('createModelTokenCounter', () => {
+        it('should resolve the tokenizer from the model argument', async () => {
+            const counter = createModelTokenCounter({
+                registry: createTokenizerRegistry({ includeDefaults: false }).register(
+                    'words',
+                    () => wordTokenizer
+                ),
+                messageOverhead: 0,
+            });
+            const messages: MastraDBMessage[] = [
+                {
+                    id: '1',
+                    role: 'user',
+                    content: stringToContentV2('one two three'),
+                    createdAt: new Date(),
+                },
+            ];
+
+            expect(await counter(messages, 'words-model')).toBe(3);
+            expect(await counter(messages, 'other-model')).toBe(4); // char/4 fallback
+        });
+    });
+});
@@ -0,0 +1,260 @@
+/**
+ * Model-aware token counting
+ *
+ * A tokenizer registry picks an encoding from the model id passed to processInputStep
+ * (o200k/cl100k via js-tiktoken, an Anthropic approximation, or a char/4 fallback).
+ * Text, tool-call, tool-result and image parts are counted separately.
+ *
+ * @example
+ * ```typescript
+ * const { processor } = createContextManager({
+ *   tokenCounter: createModelTokenCounter(),
+ * });
+ * ```
+ */
+
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { TokenCounter } from './types.js';
+import { DEFAULT_IMAGE_TOKENS, isImagePart } from './utils.js';
+
+/**
+ * Counts tokens in a piece of text for one encoding
+ */
+export interface Tokenizer {
+    name: string;
+    countText: (text: string) => number;
+}
+
+/**
+ * Creates (or loads) a tokenizer - called at most once per registry
+ */
+export type TokenizerFactory = () => Tokenizer | Promise<Tokenizer>;
+
+/**
+ * Matches model ids - substring, regular expression or predicate
+ */
+export type ModelMatcher = string | RegExp | ((modelId: string) => boolean);
+
+/**
+ * Maps model ids to tokenizers
+ */
+export interface TokenizerRegistry {
+    /**
+     * Register a tokenizer for matching model ids
+     * Later registrations take precedence over earlier ones and the built-in rules
+     */
+    register: (match: ModelMatcher, factory: TokenizerFactory) => TokenizerRegistry;
+
+    /**
+     * Resolve the tokenizer for a model id (fallback tokenizer when unknown or missing)
+     */
+    resolve: (modelId?: string) => Promise<Tokenizer>;
+}
+
+/**
+ * Per-part-type token counts
+ */
+export interface TokenBreakdown {
+    // Text and reasoning parts
+    text: number;
+    toolCall: number;
+    toolResult: number;
+    image: number;
+    other: number;
+    total: number;
+}
+
+/**
+ * Options for part-level token counting
+ */
+export interface TokenCountOptions {
+    /**
+     * Fixed cost per image part, instead of tokenizing its base64 data (default: 1000)
+     */
+    imageTokens?: number;
+
+    /**
+     * Fixed overhead per message for role and formatting tokens (default: 4)
+     */
+    messageOverhead?: number;
+}
+
+/**
+ * Char/4 approximation - used when no encoding is known for a model
+ */
+export const fallbackTokenizer: Tokenizer = {
+    name: 'char4',
+    countText: text => Math.ceil(text.length / 4),
+};
+
+/**
+ * Create a js-tiktoken tokenizer - ranks are loaded lazily on first use
+ */
+export async function createTiktokenTokenizer(
+    encoding: 'o200k_base' | 'cl100k_base'
+): Promise<Tokenizer> {
+    const { Tiktoken } = await import('js-tiktoken/lite');
+    const ranks =
+        encoding === 'o200k_base'
+            ? (await import('js-tiktoken/ranks/o200k_base')).default
+            : (await import('js-tiktoken/ranks/cl100k_base')).default;
+    const encoder = new Tiktoken(ranks);
+
+    return {
+        name: encoding,
+        // Treat special-token text (e.g. "<|endoftext|>") as plain text instead of throwing
+        countText: text => encoder.encode(text, [], []).length,
+    };
+}
+
+/**
+ * Approximate Claude token counts - Anthropic does not publish its tokenizer, and
+ * cl100k undercounts Claude by roughly 10% on English, code and JSON
+ */
+export async function createAnthropicTokenizer(): Promise<Tokenizer> {
+    const cl100k = await createTiktokenTokenizer('cl100k_base');
+    return {
+        name: 'anthropic-approx',
+        countText: text => Math.ceil(cl100k.countText(text) * 1.1),
+    };
+}
+
+/**
+ * Create a tokenizer registry with built-in rules for OpenAI and Anthropic model ids
+ */
+export function createTokenizerRegistry(
+    options: { fallback?: TokenizerFactory; includeDefaults?: boolean } = {}
+): TokenizerRegistry {
+    const { fallback = () => fallbackTokenizer, includeDefaults = true } = options;
+    const rules: Array<{ matches: (modelId: string) => boolean; factory: TokenizerFactory }> = [];
+    const loaded = new Map<TokenizerFactory, Promise<Tokenizer>>();
+
+    const load = (factory: TokenizerFactory) => {
+        let tokenizer = loaded.get(factory);
+        if (!tokenizer) {
+            tokenizer = Promise.resolve(factory()).catch(error => {
+                // Don't keep a failed load - the next resolve tries again
+                loaded.delete(factory);
+                throw error;
+            });
+            loaded.set(factory, tokenizer);
+        }
+        return tokenizer;
+    };
+
+    const registry: TokenizerRegistry = {
+        register: (match, factory) => {
+            const matches =
+                typeof match === 'string'
+                    ? (modelId: string) => modelId.toLowerCase().includes(match.toLowerCase())
+                    : match instanceof RegExp
+                      ? (modelId: string) => match.test(modelId)
+                      : match;
+            rules.unshift({ matches, factory });
+            return registry;
+        },
+        resolve: async modelId => {
+            const rule = modelId ? rules.find(r => r.matches(modelId)) : undefined;
+            return load(rule ? rule.factory : fallback);
+        },
+    };
+
+    if (includeDefaults) {
+        // Registered least specific first - later rules win
+        registry
+            .register(/claude|anthropic/i, createAnthropicTokenizer)
+            .register(/gpt-4|gpt-3\.5|text-embedding/i, () =>
+                createTiktokenTokenizer('cl100k_base')
+            )
+            .register(/gpt-4o|gpt-4\.[15]|gpt-5|chatgpt|(^|\/)o\d/i, () =>
+                createTiktokenTokenizer('o200k_base')
+            );
+    }
+
+    return registry;
+}
+
+/**
+ * Count tokens in messages, broken down by part type
+ */
+export function countMessageTokens(
+    messages: MastraDBMessage[],
+    tokenizer: Tokenizer,
+    options: TokenCountOptions = {}
+): TokenBreakdown {
+    const { imageTokens = DEFAULT_IMAGE_TOKENS, messageOverhead = 4 } = options;
+    const breakdown: TokenBreakdown = {
+        text: 0,
+        toolCall: 0,
+        toolResult: 0,
+        image: 0,
+        other: messages.length * messageOverhead,
+        total: 0,
+    };
+    const count = (value: unknown) =>
+        tokenizer.countText(typeof value === 'string' ? value : (JSON.stringify(value) ?? ''));
+
+    for (const msg of messages) {
+        if (!Array.isArray(msg.content?.parts)) {
+            breakdown.other += count(msg.content);
+            continue;
+        }
+
+        for (const part of msg.content.parts) {
+            switch (part.type) {
+                case 'text':
+                    breakdown.text += count(part.text);
+                    break;
+                case 'reasoning':
+                    breakdown.text += count(part.reasoning);
+                    break;
+                case 'tool-invocation': {
+                    const { toolName, args, state, result } = part.toolInvocation;
+                    breakdown.toolCall += count(toolName) + count(args);
+                    if (state === 'result') {
+                        breakdown.toolResult += count(result);
+                    }
+                    break;
+                }
+                case 'file':
+                    if (isImagePart(part)) {
+                        breakdown.image += imageTokens;
+                    } else {
+                        breakdown.other += count(part.data);
+                    }
+                    break;
+                case 'step-start':
+                    break;
+                default:
+                    // Legacy image parts and anything else
+                    if (isImagePart(part)) {
+                        breakdown.image += imageTokens;
+                    } else {
+                        breakdown.other += count(part);
+                    }
+            }
+        }
+    }
+
+    breakdown.total =
+        breakdown.text +
+        breakdown.toolCall +
+        breakdown.toolResult +
+        breakdown.image +
+        breakdown.other;
+    return breakdown;
+}
+
+/**
+ * Create a TokenCounter that picks a tokenizer from the model id on every call
+ */
+export function createModelTokenCounter(
+    options: TokenCountOptions & { registry?: TokenizerRegistry } = {}
+): TokenCounter {
+    const { registry = createTokenizerRegistry(), ...countOptions } = options;
+
+    return async (messages, model) => {
+        const tokenizer = await registry.resolve(model);
+        return countMessageTokens(messages, tokenizer, countOptions).total;
+    };
+}
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'bun:test';
+import {
+    createToolOutputTruncator,
+    pruneJson,
+    truncateChars,
+    truncateLines,
+    truncateToolResult,
+} from './truncation.js';
+import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { StrategyHandlerArgs } from './types.js';
+
+const createToolMessage = (id: string, toolName: string, result: unknown): MastraDBMessage => ({
+    id,
+    role: 'assistant',
+    content: {
+        format: 2,
+        parts: [
+            {
+                type: 'tool-invocation',
+                toolInvocation: {
+                    state: 'result',
+                    toolCallId: `call-${id}`,
+                    toolName,
+                    args: {},
+                    result,
+                },
+            },
+        ],
+    },
+    createdAt: new Date(),
+});
+
+const getResult = (msg: MastraDBMessage) =>
+    (msg.content.parts[0] as { toolInvocation: { result: unknown } }).toolInvocation.result;
+
+const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n');
+
+describe('truncation', () => {
+    describe('truncateLines', () => {
+        it('should keep the head and tail lines with an elision marker', () => {
+            expect(truncateLines(lines(10), { headLines: 2, tailLines: 3 })).toBe(
+                'line 1\nline 2\n… [5 lines omitted] …\nline 8\nline 9\nline 10'
+            );
+        });
+
+        it('should leave text that fits untouched', () => {
+            expect(truncateLines(lines(6), { headLines: 2, tailLines: 3 })).toBe(lines(6));
+        });
+    });
+
+    describe('truncateChars', () => {
+        it('should keep the head and tail characters within the budget', () => {
+            const result = truncateChars('a'.repeat(50) + 'b'.repeat(50), 40);
+            expect(result).toBe(`${'a'.repeat(9)}… [83 chars omitted] …${'b'.repeat(8)}`);
+            expect(result.length).toBeLessThanOrEqual(40);
+            expect(truncateChars('short', 40)).toBe('short');
+        });
+    });
+
+    describe('pruneJson', () => {
+        it('should trim arrays to the first items with a count', () => {
+            expect(pruneJson([1, 2, 3, 4, 5], { maxArrayItems: 2 })).toEqual([
+                1,
+                2,
+                '… 3 more items',
+            ]);
+        });
+
+        it('should replace nesting past the depth budget', () => {
+            expect(
+                pruneJson({ a: { b: { c: 1, d: 2 }, list: [1, 2] }, e: 'ok' }, { maxDepth: 2 })
+            ).toEqual({ a: { b: '[Object: 2 keys]', list: '[Array: 2 items]' }, e: 'ok' });
+        });
+    });
+
+    describe('truncateToolResult', () => {
+        it('should keep stderr and the exit code of bash output', () => {
+            const stderr = `warning: deprecated\n${lines(100)}`;
+            const result = truncateToolResult(
+                { stdout: lines(100), stderr, exitCode: 2 },
+                { headLines: 1, tailLines: 1 }
+            );
+            expect(result).toEqual({
+                stdout: 'line 1\n… [98 lines omitted] …\nline 100',
+                stderr,
+                exitCode: 2,
+            });
+        });
+
+        it('should prune JSON held in a string', () => {
+            const result = truncateToolResult(JSON.stringify({ items: [1, 2, 3] }), {
+                maxArrayItems: 1,
+            });
+            expect(JSON.parse(result as string)).toEqual({ items: [1, '… 2 more items'] });
+        });
+
+        it('should truncate long strings inside JSON results', () => {
+            expect(
+                truncateToolResult(
+                    { content: lines(10), path: '/tmp/a.txt' },
+                    { headLines: 1, tailLines: 1 }
+                )
+            ).toEqual({ content: 'line 1\n… [8 lines omitted] …\nline 10', path: '/tmp/a.txt' });
+        });
+
+        it('should cut results that stay over maxResultTokens to the budget', () => {
+            const line = 'x'.repeat(100_000);
+            const minified = JSON.stringify({ rows: [{ text: line }] });
+            const fits = (result: unknown) =>
+                (typeof result === 'string' ? result : JSON.stringify(result)).length <= 400;
+
+            for (const result of [line, minified, { content: line, path: '/tmp/a.txt' }]) {
+                const truncated = truncateToolResult(result, { maxResultTokens: 100 });
+                expect(fits(truncated)).toBe(true);
+                expect(truncated).toContain('chars omitted');
+            }
+        });
+
+        it('should cut only stdout of bash output that stays over budget', () => {
+            const result = truncateToolResult(
+                { stdout: 'x'.repeat(100_000), stderr: 'warning: slow', exitCode: 0 },
+                { maxResultTokens: 100 }
+            ) as { stdout: string; stderr: string; exitCode: number };
+
+            expect(result).toMatchObject({ stderr: 'warning: slow', exitCode: 0 });
+            expect(result.stdout).toContain('chars omitted');
+            expect(JSON.stringify(result).length).toBeLessThanOrEqual(400);
+        });
+    });
+
+    describe('createToolOutputTruncator', () => {
+        const run = (
+            messages: MastraDBMessage[],
+            options?: Parameters<typeof createToolOutputTruncator>[0]
+        ) => createToolOutputTruncator(options)({ messages } as StrategyHandlerArgs);
+
+        it('should truncate oversized results and leave small ones alone', async () => {
+            const small = createToolMessage('1', 'list-files', 'a.txt\nb.txt');
+            const large = createToolMessage('2', 'read-file', lines(500));
+
+            const result = (await run([small, large]))!;
+
+            expect(result[0]).toBe(small);
+            expect(getResult(result[1])).toContain('… [460 lines omitted] …');
+            expect(result[1].content.parts[0]).toMatchObject({
+                toolInvocation: { toolCallId: 'call-2', toolName: 'read-file' },
+            });
+        });
+
+        it('should bring a single huge line within maxResultTokens', async () => {
+            const message = createToolMessage('1', 'fetch-page', 'x'.repeat(100_000));
+
+            const result = (await run([message], { maxResultTokens: 500 }))!;
+
+            expect((getResult(result[0]) as string).length).toBeLessThanOrEqual(2000);
+        });
+
+        it('should apply per-tool rules', async () => {
+            const messages = [
+                createToolMessage('1', 'read-file', lines(500)),
+                createToolMessage('2', 'execute-bash', {
+                    stdout: lines(500),
+                    stderr: '',
+                    exitCode: 0,
+                }),
+                createToolMessage('3', 'write-file', lines(500)),
+            ];
+
+            const result = (await run(messages, {
+                rules: { 'read-file': { headLines: 5, tailLines: 0 }, 'write-file': false },
+            }))!;
+
+            expect((getResult(result[0]) as string).split('\n')).toHaveLength(6);
+            expect((getResult(result[1]) as { stdout: string }).stdout).toContain(
+                '… [460 lines omitted] …'
+            );
+            expect(result[2]).toBe(messages[2]);
+        });
+
+        it('should skip recent messages and return undefined when nothing changes', async () => {
+            const messages = [createToolMessage('1', 'read-file', lines(500))];
+            expect(await run(messages, { keepRecent: 1 })).toBeUndefined();
+            expect(await run(messages, { maxResultTokens: 10000 })).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,300 @@
+/**
+ * Built-in filter handler for large tool results
+ *
+ * Truncates oversized tool results by content type instead of dropping whole messages:
+ * text and logs keep their head and tail lines, bash output keeps stderr and the exit
+ * code, and JSON keeps the first items of each array and the top levels of nesting.
+ * Anything still over `maxResultTokens` (a single huge line, minified JSON) is cut to
+ * its head and tail characters. Elided content is replaced with a marker saying how much
+ * was cut.
+ *
+ * @example
+ * ```typescript
+ * const { processor } = createContextManager({
+ *   handlers: {
+ *     filter: createToolOutputTruncator({
+ *       maxResultTokens: 500,
+ *       rules: { readFile: { headLines: 100, tailLines: 20 }, writeFile: false },
+ *     }),
+ *   },
+ * });
+ * ```
+ */
+
+import type { ContextStrategyHandlers } from './types.js';
+import type { ToolInvocationPart } from './utils.js';
+import { estimateTextTokens, serializePayload } from './utils.js';
+
+/**
+ * How a tool result is truncated
+ */
+export interface TruncationRule {
+    /**
+     * Results estimated at or below this many tokens are left alone, and larger ones are
+     * cut down to it (default: 500)
+     */
+    maxResultTokens?: number;
+
+    /**
+     * Lines kept from the start of long text (default: 20)
+     */
+    headLines?: number;
+
+    /**
+     * Lines kept from the end of long text (default: 20)
+     */
+    tailLines?: number;
+
+    /**
+     * Items kept from the start of each JSON array (default: 10)
+     */
+    maxArrayItems?: number;
+
+    /**
+     * JSON nesting levels kept - deeper objects and arrays are replaced with a marker
+     * (default: 4)
+     */
+    maxDepth?: number;
+}
+
+/**
+ * Options for createToolOutputTruncator
+ */
+export interface ToolOutputTruncatorOptions extends TruncationRule {
+    /**
+     * Per-tool overrides, keyed like ToolPolicies
+     * `false` leaves that tool's results untouched
+     */
+    rules?: Record<string, TruncationRule | false>;
+
+    /**
+     * Number of most recent messages left untouched (default: 0)
+     */
+    keepRecent?: number;
+
+    /**
+     * Token estimate for a serialized result (default: estimateTextTokens)
+     */
+    estimateTokens?: (text: string) => number;
+}
+
+/**
+ * Keep the first and last lines of long text, with a marker for the elided middle
+ */
+export function truncateLines(
+    text: string,
+    options: Pick<TruncationRule, 'headLines' | 'tailLines'> = {}
+): string {
+    const { headLines = 20, tailLines = 20 } = options;
+    const lines = text.split('\n');
+    if (lines.length <= headLines + tailLines + 1) {
+        return text;
+    }
+
+    const omitted = lines.length - headLines - tailLines;
+    return [
+        ...lines.slice(0, headLines),
+        `… [${omitted} lines omitted] …`,
+        ...(tailLines > 0 ? lines.slice(-tailLines) : []),
+    ].join('\n');
+}
+
+/**
+ * Keep the first and last characters of text longer than maxChars, with a marker for the
+ * elided middle - the marker counts toward maxChars
+ */
+export function truncateChars(text: string, maxChars: number): string {
+    if (text.length <= maxChars) {
+        return text;
+    }
+
+    const marker = (omitted: number) => `… [${omitted} chars omitted] …`;
+    const kept = Math.max(0, maxChars - marker(text.length).length);
+    const head = Math.ceil(kept / 2);
+    const tail = kept - head;
+    return `${text.slice(0, head)}${marker(text.length - kept)}${tail > 0 ? text.slice(-tail) : ''}`;
+}
+
+/**
+ * Trim JSON arrays to their first items and replace nesting past the depth budget
+ * Long multi-line strings are truncated like text
+ */
+export function pruneJson(value: unknown, options: TruncationRule = {}, depth = 0): unknown {
+    const { maxArrayItems = 10, maxDepth = 4 } = options;
+
+    if (typeof value === 'string') {
+        return truncateLines(value, options);
+    }
+    if (Array.isArray(value)) {
+        if (depth >= maxDepth) {
+            return `[Array: ${value.length} items]`;
+        }
+        const kept = value.slice(0, maxArrayItems).map(item => pruneJson(item, options, depth + 1));
+        return value.length > maxArrayItems
+            ? [...kept, `… ${value.length - maxArrayItems} more items`]
+            : kept;
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value);
+        if (depth >= maxDepth) {
+            return `[Object: ${entries.length} keys]`;
+        }
+        return Object.fromEntries(
+            entries.map(([key, item]) => [key, pruneJson(item, options, depth + 1)])
+        );
+    }
+    return value;
+}
+
+/**
+ * Whether a tool result looks like shell output ({ stdout, stderr, exitCode })
+ */
+function isBashOutput(
+    result: unknown
+): result is { stdout: string; stderr?: string; exitCode?: number } {
+    return Boolean(
+        result &&
+        typeof result === 'object' &&
+        typeof (result as { stdout?: unknown }).stdout === 'string' &&
+        ('stderr' in result || 'exitCode' in result)
+    );
+}
+
+/**
+ * Parse a string result that holds JSON, or undefined when it is plain text
+ */
+function parseJson(text: string): unknown {
+    if (!/^\s*[[{]/.test(text)) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Truncate by content type, without a size guarantee
+ */
+function truncateByType(result: unknown, rule: TruncationRule): unknown {
+    if (isBashOutput(result)) {
+        return { ...result, stdout: truncateLines(result.stdout, rule) };
+    }
+    if (typeof result === 'string') {
+        const parsed = parseJson(result);
+        return parsed === undefined
+            ? truncateLines(result, rule)
+            : JSON.stringify(pruneJson(parsed, rule));
+    }
+    return pruneJson(result, rule);
+}
+
+/**
+ * Truncate a tool result by content type, then to maxResultTokens
+ * Bash output keeps stderr and the exit code in full and truncates stdout; JSON (objects
+ * or JSON strings) is pruned; other strings keep their head and tail lines. A result
+ * still over budget is cut by characters instead - for bash output only stdout when it
+ * can absorb the cut, otherwise the serialized result as a string
+ */
+export function truncateToolResult(
+    result: unknown,
+    rule: TruncationRule = {},
+    estimateTokens: (text: string) => number = estimateTextTokens
+): unknown {
+    const { maxResultTokens = 500 } = rule;
+    const truncated = truncateByType(result, rule);
+    const serialized = serializePayload(truncated);
+    const tokens = estimateTokens(serialized);
+    if (tokens <= maxResultTokens) {
+        return truncated;
+    }
+
+    // Character budget in proportion to the estimate, so custom estimators are honored.
+    // Text is cut from the original so the cut never lands inside a line marker
+    const maxChars = Math.floor((serialized.length * maxResultTokens) / tokens);
+    if (isBashOutput(result)) {
+        // What is left for stdout once the other fields are serialized, scaled for escaping
+        const rest = serializePayload({ ...result, stdout: '' }).length;
+        const escaped = JSON.stringify(result.stdout).length;
+        const stdoutChars = Math.floor(((maxChars - rest) * result.stdout.length) / escaped);
+        const candidate = { ...result, stdout: truncateChars(result.stdout, stdoutChars) };
+        if (stdoutChars > 0 && estimateTokens(serializePayload(candidate)) <= maxResultTokens) {
+            return candidate;
+        }
+    }
+    const isText = typeof result === 'string' && parseJson(result) === undefined;
+    return truncateChars(isText ? result : serialized, maxChars);
+}
+
+/**
+ * Creates a filter handler that truncates oversized tool results in place
+ */
+export function createToolOutputTruncator(
+    options: ToolOutputTruncatorOptions = {}
+): NonNullable<ContextStrategyHandlers['filter']> {
+    const {
+        rules = {},
+        keepRecent = 0,
+        estimateTokens = estimateTextTokens,
+        ...defaults
+    } = options;
+
+    /**
+     * Return the truncated result, or undefined to keep the original
+     */
+    const truncatePart = (part: ToolInvocationPart): unknown => {
+        const invocation = part.toolInvocation;
+        const toolRule = rules[invocation.toolName];
+        if (invocation.state !== 'result' || toolRule === false) {
+            return undefined;
+        }
+
+        const rule = { ...defaults, ...toolRule };
+        const serialized = serializePayload(invocation.result);
+        if (estimateTokens(serialized) <= (rule.maxResultTokens ?? 500)) {
+            return undefined;
+        }
+
+        const truncated = truncateToolResult(invocation.result, rule, estimateTokens);
+        return serializePayload(truncated).length < serialized.length ? truncated : undefined;
+    };
+
+    return async ({ messages }) => {
+        const cutoff = Math.max(0, messages.length - keepRecent);
+        let changed = false;
+
+        const truncated = messages.map((msg, idx) => {
+            if (idx >= cutoff || !Array.isArray(msg.content.parts)) {
+                return msg;
+            }
+
+            let msgChanged = false;
+            const parts = msg.content.parts.map(part => {
+                if (part.type !== 'tool-invocation') {
+                    return part;
+                }
+
+                const result = truncatePart(part);
+                if (result === undefined) {
+                    return part;
+                }
+
+                msgChanged = true;
+                return {
+                    ...part,
+                    toolInvocation: { ...part.toolInvocation, result },
+                } as ToolInvocationPart;
+            });
+
+            if (!msgChanged) {
+                return msg;
+            }
+
+            changed = true;
+            return { ...msg, content: { ...msg.content, parts } };
+        });
+
+        return changed ? truncated : undefined;
+    };
+}
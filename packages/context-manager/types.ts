@@ -1,5 +1,56 @@
 import type { ProcessInputStepArgs } from '@mastra/core/processors';
 import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { ContextWindowResolver } from './limits.js';
+import type { IntegrityIssue, IntegrityRepairOptions, ValidationIssue } from './validation.js';
+import type { RetentionPolicy } from './retention.js';
+import type { MessageScorer } from './scoring.js';
+import type { ToolPolicies } from './policies.js';
+import type { RetrievalConfig, RetrievalReport } from './retrieval.js';
+import { createContextWindowResolver } from './limits.js';
+import { estimateTokensDefault } from './utils.js';
+
+/**
+ * Built-in context management strategies
+ */
+export type StrategyName = 'filter' | 'compact' | 'summarize' | 'offload';
+
+/**
+ * Default strategy order - cheapest and least lossy first
+ */
+export const STRATEGY_NAMES: readonly StrategyName[] = [
+    'filter',
+    'compact',
+    'summarize',
+    'offload',
+];
+
+/**
+ * Arguments shared by all strategy handlers
+ */
+export type StrategyHandlerArgs = ProcessInputStepArgs & {
+    /**
+     * Context size at the start of this step
+     */
+    estimatedTokens: number;
+
+    /**
+     * Size of `messages` as passed to this handler, after earlier strategies ran
+     * Equals estimatedTokens when recountBetweenStrategies is disabled
+     */
+    tokensBeforeStrategy: number;
+
+    /**
+     * Aborted when the handler times out (see timeoutMs) or the agent run is aborted
+     * Pass it to LLM calls and other long-running work
+     */
+    abortSignal: AbortSignal;
+};
+
+/**
+ * One handler or an ordered fallback chain - the next handler runs when the previous one
+ * throws, times out, returns undefined or returns invalid messages
+ */
+export type HandlerChain<THandler> = THandler | THandler[];
 
 /**
  * Strategy handlers - developers implement these
@@ -9,47 +60,99 @@ export interface ContextStrategyHandlers {
      * Filter large messages/results
      * Return modified messages array or undefined to skip
      */
-    filter?: (
-        args: ProcessInputStepArgs & { estimatedTokens: number }
-    ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined;
+    filter?: HandlerChain<
+        (
+            args: StrategyHandlerArgs
+        ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined
+    >;
 
     /**
      * Compact large messages (e.g., save to external storage, replace with reference)
      * Return modified messages array or undefined to skip
      */
-    compact?: (
-        args: ProcessInputStepArgs & { estimatedTokens: number }
-    ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined;
+    compact?: HandlerChain<
+        (
+            args: StrategyHandlerArgs
+        ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined
+    >;
 
     /**
      * Summarize old messages
      * Return modified messages array or undefined to skip
      */
-    summarize?: (
-        args: ProcessInputStepArgs & {
-            estimatedTokens: number;
-            oldMessages: MastraDBMessage[];
-            recentMessages: MastraDBMessage[];
-        }
-    ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined;
+    summarize?: HandlerChain<
+        (
+            args: StrategyHandlerArgs & {
+                oldMessages: MastraDBMessage[];
+                recentMessages: MastraDBMessage[];
+            }
+        ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined
+    >;
 
     /**
      * Offload messages to external storage
      * Return modified messages array or undefined to skip
      */
-    offload?: (
-        args: ProcessInputStepArgs & {
-            estimatedTokens: number;
-            messagesToOffload: MastraDBMessage[];
-            messagesToKeep: MastraDBMessage[];
-        }
-    ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined;
+    offload?: HandlerChain<
+        (
+            args: StrategyHandlerArgs & {
+                messagesToOffload: MastraDBMessage[];
+                messagesToKeep: MastraDBMessage[];
+            }
+        ) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined
+    >;
+}
+
+/**
+ * Which handler in a strategy's chain produced a result or error
+ */
+export interface HandlerInfo {
+    /**
+     * Position in the chain (0 for the primary handler)
+     */
+    index: number;
+
+    /**
+     * Number of handlers in the chain
+     */
+    count: number;
+
+    /**
+     * Attempt number for this handler, starting at 1
+     */
+    attempt: number;
+}
+
+/**
+ * Retry settings for a strategy's handlers - throws and timeouts are retried,
+ * undefined and invalid results fall through to the next handler immediately
+ */
+export interface RetryConfig {
+    /**
+     * Attempts per handler, including the first (default: 1 - no retries)
+     */
+    attempts?: number;
+
+    /**
+     * Delay before the first retry (default: 0)
+     */
+    backoffMs?: number;
+
+    /**
+     * Multiplier applied to the delay after each retry (default: 2)
+     */
+    backoffFactor?: number;
+
+    /**
+     * Upper bound for the delay (default: none)
+     */
+    maxBackoffMs?: number;
 }
 
 /**
  * Lifecycle hooks for orchestration control and observability
  */
-export interface ContextManagerHooks {
+export interface ContextManagerHooks<TName extends string = StrategyName> {
     /**
      * Called before any strategy is evaluated
      * Return false to skip all context management for this step
@@ -58,10 +161,11 @@ export interface ContextManagerHooks {
 
     /**
      * Called before each strategy to decide if it should run
+     * Receives the current context size (recounted after earlier strategies)
      * Return false to skip this strategy
      */
     shouldRunStrategy?: (
-        strategy: 'filter' | 'compact' | 'summarize' | 'offload',
+        strategy: TName,
         args: ProcessInputStepArgs,
         estimatedTokens: number
     ) => boolean | Promise<boolean>;
@@ -73,30 +177,217 @@ export interface ContextManagerHooks {
     afterModify?: (
         args: ProcessInputStepArgs,
         modifiedMessages: MastraDBMessage[],
-        strategy: string
+        strategy: TName,
+        handler: HandlerInfo
     ) => MastraDBMessage[] | Promise<MastraDBMessage[]>;
 
     /**
-     * Called when a handler throws an error
+     * Called when a handler or afterModify throws an error
+     * Receives the rollback policy applied, the checkpoint the step continues from and the
+     * handler in the chain that failed (undefined when beforeProcess threw)
+     * Called for every failed attempt - only the last one in a chain rolls back
      * Use this for observability/logging/metrics
-     * Return true to continue with original messages, false to abort
+     * The return value is ignored - `rollback` decides which messages the step continues with
      */
     onError?: (
         error: Error,
-        strategy: 'filter' | 'compact' | 'summarize' | 'offload',
-        args: ProcessInputStepArgs
-    ) => boolean | Promise<boolean>;
+        strategy: TName,
+        args: ProcessInputStepArgs,
+        rollback: RollbackInfo<TName>,
+        handler?: HandlerInfo
+    ) => void | boolean | Promise<void | boolean>;
 
     /**
      * Called when handler returns invalid data
      * Use this for observability/logging/metrics
-     * Return true to continue with original messages, false to abort
+     * `reason` joins the formatted issues; `issues` lists each one with its path and code
+     * The return value is ignored - invalid messages are never used and the next handler
+     * in the chain runs
      */
     onValidationError?: (
-        strategy: 'filter' | 'compact' | 'summarize' | 'offload',
+        strategy: TName,
         args: ProcessInputStepArgs,
-        reason: string
-    ) => boolean | Promise<boolean>;
+        reason: string,
+        issues: ValidationIssue[]
+    ) => void | boolean | Promise<void | boolean>;
+
+    /**
+     * Called in budget mode when escalating through strategies could not bring the
+     * context under the hard limit - the provider call will likely fail
+     */
+    onBudgetNotMet?: (
+        outcome: BudgetOutcome<TName>,
+        args: ProcessInputStepArgs
+    ) => void | Promise<void>;
+
+    /**
+     * Called when integrity repair (integrity.mode 'repair') fixed a handler's result
+     */
+    onIntegrityRepair?: (
+        strategy: TName,
+        fixed: IntegrityIssue[],
+        args: ProcessInputStepArgs
+    ) => void | Promise<void>;
+
+    /**
+     * Called at the end of every step with a record of what each strategy did
+     * Also available afterwards via getLastReport(); errors it throws are ignored
+     */
+    onStepReport?: (report: StepReport<TName>, args: ProcessInputStepArgs) => void | Promise<void>;
+}
+
+/**
+ * Why a strategy did not change the messages
+ * - below-threshold: context was at or under the strategy's threshold
+ * - step-gate: the step trigger (or a custom shouldTrigger) was not met
+ * - hook-veto: shouldRunStrategy returned false
+ * - no-result: the handler returned undefined
+ * - validation-failed: the handler returned invalid messages
+ * - error: the handler threw
+ * - timeout: the handler exceeded its timeoutMs
+ * - rolled-back: afterModify threw and the step was rolled back to the last checkpoint
+ *   (the original messages under rollback: 'all-or-nothing')
+ */
+export type StrategySkipReason =
+    | 'below-threshold'
+    | 'step-gate'
+    | 'hook-veto'
+    | 'no-result'
+    | 'validation-failed'
+    | 'error'
+    | 'timeout'
+    | 'rolled-back';
+
+/**
+ * One strategy evaluation within a step
+ */
+export interface StrategyReportEntry<TName extends string = StrategyName> {
+    strategy: TName;
+
+    /**
+     * Whether the strategy ran in the threshold pass or was escalated to in budget mode
+     */
+    pass: 'threshold' | 'budget';
+    status: 'applied' | 'skipped';
+    reason?: StrategySkipReason;
+
+    /**
+     * Error or validation message for error, timeout, validation-failed and rolled-back
+     */
+    error?: string;
+
+    /**
+     * Handler in the chain that produced the result, or the last one that failed
+     */
+    handler?: HandlerInfo;
+
+    /**
+     * Integrity issues fixed in the applied result (integrity.mode 'repair')
+     */
+    repairs?: IntegrityIssue[];
+
+    /**
+     * Context size before and after the strategy
+     * Equal unless tokens are recounted (recountBetweenStrategies or budget mode)
+     */
+    tokensBefore: number;
+    tokensAfter: number;
+
+    /**
+     * Start time (epoch milliseconds) and duration, including trigger evaluation
+     */
+    startedAt: number;
+    durationMs: number;
+}
+
+/**
+ * Structured record of one processInputStep call
+ */
+export interface StepReport<TName extends string = StrategyName> {
+    stepNumber: number;
+    modelId?: string;
+
+    /**
+     * False when beforeProcess skipped the step - no tokens were counted and the
+     * token fields are 0
+     */
+    processed: boolean;
+    estimatedTokens: number;
+    finalTokens: number;
+
+    /**
+     * Whether modified messages were returned
+     */
+    changed: boolean;
+    startedAt: number;
+    durationMs: number;
+    strategies: StrategyReportEntry<TName>[];
+
+    /**
+     * Present in budget mode - met is true when the final size fits targetTokens
+     */
+    budget?: { targetTokens: number; hardLimit: number; met: boolean };
+
+    /**
+     * Present when retrieval is configured - a failure is reported here, not thrown
+     */
+    retrieval?: RetrievalReport;
+}
+
+/**
+ * How a failed strategy is rolled back
+ * - checkpoint: keep the output of earlier successful strategies and continue
+ * - all-or-nothing: restore the original messages and skip the remaining strategies
+ */
+export type RollbackPolicy = 'checkpoint' | 'all-or-nothing';
+
+/**
+ * Rollback applied after an error, passed to onError
+ */
+export interface RollbackInfo<TName extends string = StrategyName> {
+    policy: RollbackPolicy;
+
+    /**
+     * Strategy whose output the messages were restored to - undefined for the original messages
+     */
+    restoredTo?: TName;
+
+    /**
+     * Whether the remaining strategies for this step are skipped
+     */
+    aborted: boolean;
+}
+
+/**
+ * Target-budget mode - escalate through strategies until the context fits
+ */
+export interface BudgetConfig<TName extends string = StrategyName> {
+    /**
+     * Keep running strategies (ignoring thresholds and step triggers) until the context is
+     * at or below this size - absolute tokens or a percentage of the context window
+     */
+    targetTokens: ThresholdValue;
+
+    /**
+     * Report onBudgetNotMet only when the final size exceeds this (default: targetTokens)
+     */
+    hardLimit?: ThresholdValue;
+
+    /**
+     * Escalation order (default: filter -> compact -> summarize -> offload)
+     */
+    order?: TName[];
+}
+
+/**
+ * Result reported when budget mode could not fit the context
+ */
+export interface BudgetOutcome<TName extends string = StrategyName> {
+    targetTokens: number;
+    hardLimit: number;
+    estimatedTokens: number;
+    finalTokens: number;
+    attemptedStrategies: TName[];
 }
 
 /**
@@ -108,19 +399,77 @@ export type TokenCounter = (
     model?: string
 ) => number | Promise<number>;
 
+/**
+ * Token threshold - an absolute token count, or a percentage of the model's context window
+ */
+export type ThresholdValue = number | `${number}%`;
+
+/**
+ * A registered strategy in the pipeline
+ * The four built-in strategies are registered by name; add your own (e.g. dedupe, redact)
+ */
+export interface ContextStrategy<TName extends string = string> {
+    name: TName;
+
+    /**
+     * Whether the strategy's step/token triggers are met (ignored in budget mode)
+     * Defaults to: context exceeds thresholds[name], or always when no threshold is set
+     */
+    shouldTrigger?: (context: StrategyContext) => boolean | Promise<boolean>;
+
+    /**
+     * Return modified messages array or undefined to skip
+     * An array is a fallback chain (see HandlerChain)
+     */
+    handler: HandlerChain<StrategyHandler>;
+}
+
+/**
+ * Handler signature for registered strategies
+ */
+export type StrategyHandler = (
+    args: StrategyHandlerArgs,
+    context: StrategyContext
+) => Promise<MastraDBMessage[] | undefined> | MastraDBMessage[] | undefined;
+
+/**
+ * Per-step state passed to strategy triggers and handlers
+ */
+export interface StrategyContext {
+    args: ProcessInputStepArgs;
+    stepNumber: number;
+    estimatedTokens: number;
+    tokensBeforeStrategy: number;
+
+    /**
+     * This strategy's resolved threshold, if one is configured
+     */
+    threshold?: number;
+}
+
 /**
  * Configuration for context management orchestration
+ * TCustom holds the names of custom strategies registered in `pipeline`
  */
-export interface ContextManagerConfig {
+export interface ContextManagerConfig<TCustom extends string = never> {
     /**
      * Token thresholds for each strategy
+     * Use a number for absolute tokens or a percentage (e.g. '60%') of the context window
      */
-    thresholds?: {
-        filter?: number;
-        compact?: number;
-        summarize?: number;
-        offload?: number;
-    };
+    thresholds?: Partial<Record<StrategyName | TCustom, ThresholdValue>>;
+
+    /**
+     * Strategy pipeline, run in order - built-in strategy names and/or custom strategies
+     * Default: ['filter', 'compact', 'summarize', 'offload']
+     */
+    pipeline?: Array<StrategyName | ContextStrategy<TCustom>>;
+
+    /**
+     * Context window size used to resolve percentage thresholds
+     * A fixed token count, or a resolver called with the model id of each step
+     * Defaults to the built-in model limits table (see createContextWindowResolver)
+     */
+    contextWindow?: number | ContextWindowResolver;
 
     /**
      * Step-based triggers
@@ -132,13 +481,9 @@ export interface ContextManagerConfig {
     };
 
     /**
-     * Message retention settings (used to determine which messages to offload)
+     * Message retention policy - which messages the offload and summarize splits keep
      */
-    retention?: {
-        keepRecent?: number;
-        keepUserMessages?: boolean;
-        keepSystemMessages?: boolean;
-    };
+    retention?: RetentionPolicy;
 
     /**
      * Strategy handlers - implement your own logic here
@@ -148,21 +493,15 @@ export interface ContextManagerConfig {
     /**
      * Lifecycle hooks for orchestration control and observability
      */
-    hooks?: ContextManagerHooks;
+    hooks?: ContextManagerHooks<StrategyName | TCustom>;
 
     /**
      * Enable/disable specific strategies
      */
-    strategies?: {
-        filter?: boolean;
-        compact?: boolean;
-        summarize?: boolean;
-        offload?: boolean;
-    };
+    strategies?: Partial<Record<StrategyName | TCustom, boolean>>;
 
     /**
-     * Token counting function - defaults to char/4 approximation
-     * Provide tiktoken or custom function for accurate counting
+     * Token counting function, see TokenCounter (default: estimateTokensDefault)
      */
     tokenCounter?: TokenCounter;
 
@@ -171,24 +510,102 @@ export interface ContextManagerConfig {
      * Set to false if handlers are trusted and you want to skip validation overhead
      */
     validateHandlers?: boolean;
+
+    /**
+     * Whether to recount tokens after each successful strategy (default: true)
+     * Later strategies are then gated on the reduced size. Set to false to gate every
+     * strategy on the single estimate taken at the start of the step
+     */
+    recountBetweenStrategies?: boolean;
+
+    /**
+     * Target-budget mode: after the threshold pass, keep escalating through strategies
+     * until the recounted context fits targetTokens
+     */
+    budget?: BudgetConfig<StrategyName | TCustom>;
+
+    /**
+     * Rollback policy when a handler or afterModify throws (default: 'checkpoint')
+     */
+    rollback?: RollbackPolicy;
+
+    /**
+     * Per-strategy handler timeouts in milliseconds (default: none)
+     * A timed-out handler is treated as failed: its abortSignal is aborted and onError
+     * receives a TimeoutError
+     */
+    timeoutMs?: Partial<Record<StrategyName | TCustom, number>>;
+
+    /**
+     * Per-strategy retry and backoff for handler throws and timeouts (default: no retries)
+     */
+    retry?: Partial<Record<StrategyName | TCustom, RetryConfig>>;
+
+    /**
+     * Structural checks on handler results - tool call/result pairing, duplicate ids,
+     * chronological createdAt and no leading assistant turn (default: off)
+     * check: reject results that introduce problems; repair: fix them and report via
+     * onIntegrityRepair
+     */
+    integrity?: IntegrityConfig;
+
+    /**
+     * Rates how much each message is worth keeping (default: off)
+     * Offload and summarize then receive released messages lowest score first, and
+     * `retention.keepAboveScore` can keep high-value messages
+     */
+    scorer?: MessageScorer;
+
+    /**
+     * Per-tool policies keyed by the name each tool is registered under (default: none)
+     * The filter strategy reduces results above `maxResultTokens`, and the summarize and
+     * offload splits honour `summarize`, `offload` and `keepRecent`
+     */
+    toolPolicies?: ToolPolicies;
+
+    /**
+     * Semantic retrieval of history that left the context (default: off)
+     * Removed messages are embedded into a vector index, and snippets relevant to the
+     * latest turn are injected as a marked system message each step
+     */
+    retrieval?: RetrievalConfig;
 }
 
 /**
- * Default configuration
+ * Structural integrity checking for handler results
+ */
+export type IntegrityConfig = IntegrityRepairOptions & { mode: 'check' | 'repair' };
+
+/**
+ * Configuration after merging with defaults
  */
-export const DEFAULT_CONFIG: Required<
-    Omit<ContextManagerConfig, 'handlers' | 'hooks' | 'tokenCounter'>
+export type ResolvedContextManagerConfig<TCustom extends string = never> = Required<
+    Omit<
+        ContextManagerConfig<TCustom>,
+        'handlers' | 'hooks' | 'tokenCounter' | 'budget' | 'integrity' | 'scorer' | 'retrieval'
+    >
 > & {
     handlers: ContextStrategyHandlers;
-    hooks: ContextManagerHooks;
+    hooks: ContextManagerHooks<StrategyName | TCustom>;
     tokenCounter: TokenCounter;
-} = {
+    budget?: BudgetConfig<StrategyName | TCustom>;
+    integrity?: IntegrityConfig;
+    scorer?: MessageScorer;
+    retrieval?: RetrievalConfig;
+};
+
+/**
+ * Default configuration
+ */
+export const DEFAULT_CONFIG: ResolvedContextManagerConfig = {
     thresholds: {
         filter: 40000,
         compact: 50000,
         summarize: 70000,
         offload: 60000,
     },
+    contextWindow: createContextWindowResolver(),
+    pipeline: [...STRATEGY_NAMES],
     stepTriggers: {
         minStepsForCompact: 10,
         minStepsForOffload: 5,
@@ -207,14 +624,12 @@ export const DEFAULT_CONFIG: Required<
         summarize: true,
         offload: true,
     },
-    tokenCounter: messages => {
-        // Default: char/4 approximation
-        const totalChars = messages.reduce((sum, msg) => {
-            const content =
-                typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content);
-            return sum + content.length;
-        }, 0);
-        return totalChars / 4;
-    },
+    // Default: char/4 approximation over part text, images at DEFAULT_IMAGE_TOKENS
+    tokenCounter: messages => estimateTokensDefault(messages),
     validateHandlers: true,
+    recountBetweenStrategies: true,
+    rollback: 'checkpoint',
+    timeoutMs: {},
+    retry: {},
+    toolPolicies: {},
 };
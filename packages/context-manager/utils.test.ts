@@ -4,6 +4,13 @@ import {
     estimateTokensDefault,
     shouldKeepMessage,
     stringToContentV2,
+    getModelId,
+    getPartText,
+    dropReasoningParts,
+    DEFAULT_IMAGE_TOKENS,
+    serializePayload,
+    estimateTextTokens,
+    insertReplacement,
 } from './utils.js';
 import type { MastraDBMessage } from '@mastra/core/agent/message-list';
 
@@ -54,6 +61,67 @@ describe('utils', () => {
         });
     });
 
+    describe('getPartText', () => {
+        it('should describe tool, reasoning, file and source parts', () => {
+            expect(
+                getPartText({
+                    type: 'tool-invocation',
+                    toolInvocation: {
+                        state: 'result',
+                        toolCallId: 'call-1',
+                        toolName: 'readFile',
+                        args: { path: 'a.ts' },
+                        result: 'contents',
+                    },
+                })
+            ).toBe('[tool readFile({"path":"a.ts"})] contents');
+            expect(getPartText({ type: 'reasoning', reasoning: 'Thinking', details: [] })).toBe(
+                'Thinking'
+            );
+            expect(getPartText({ type: 'file', mimeType: 'image/png', data: 'aGk=' })).toBe(
+                '[image: image/png]'
+            );
+            expect(
+                getPartText({
+                    type: 'source',
+                    source: { sourceType: 'url', id: 's1', url: 'https://a.dev', title: 'Docs' },
+                })
+            ).toBe('[source: Docs](https://a.dev)');
+            expect(getPartText({ type: 'step-start' })).toBe('');
+        });
+
+        it('should leave out reasoning when includeReasoning is false', () => {
+            const msg: MastraDBMessage = {
+                id: '1',
+                role: 'assistant',
+                content: {
+                    format: 2,
+                    parts: [
+                        { type: 'reasoning', reasoning: 'Thinking', details: [] },
+                        { type: 'text', text: 'Answer' },
+                    ],
+                },
+                createdAt: new Date(),
+            };
+            expect(getMessageText(msg)).toBe('ThinkingAnswer');
+            expect(getMessageText(msg, { includeReasoning: false })).toBe('Answer');
+        });
+    });
+
+    describe('serializePayload', () => {
+        it('should keep strings as-is and serialize anything else as JSON', () => {
+            expect(serializePayload('plain')).toBe('plain');
+            expect(serializePayload({ a: [1, 2] })).toBe('{"a":[1,2]}');
+            expect(serializePayload(undefined)).toBe('');
+        });
+    });
+
+    describe('estimateTextTokens', () => {
+        it('should estimate a quarter token per character', () => {
+            expect(estimateTextTokens('a'.repeat(400))).toBe(100);
+        });
+    });
+
     describe('estimateTokensDefault', () => {
         it('should estimate tokens using char/4 approximation', () => {
             const messages: MastraDBMessage[] = [
@@ -86,6 +154,24 @@ describe('utils', () => {
             // "Hello" = 5 chars, "World" = 5 chars = 10 chars / 4 = 2.5 tokens
             expect(estimateTokensDefault(messages)).toBeCloseTo(2.5);
         });
+
+        it('should count images at a fixed cost instead of their data length', () => {
+            const messages: MastraDBMessage[] = [
+                {
+                    id: '1',
+                    role: 'user',
+                    content: {
+                        format: 2,
+                        parts: [
+                            { type: 'text', text: 'Look' },
+                            { type: 'file', mimeType: 'image/png', data: 'a'.repeat(100_000) },
+                        ],
+                    },
+                    createdAt: new Date(),
+                },
+            ];
+            expect(estimateTokensDefault(messages)).toBe(1 + DEFAULT_IMAGE_TOKENS);
+        });
     });
 
     describe('shouldKeepMessage', () => {
@@ -134,6 +220,15 @@ describe('utils', () => {
             );
         });
 
+        it('should keep tool messages when keepToolMessages is true', () => {
+            const msg = {
+                ...createMessage('assistant'),
+                role: 'tool',
+            } as unknown as MastraDBMessage;
+            expect(shouldKeepMessage(msg, 0, 10, { keepToolMessages: true })).toBe(true);
+            expect(shouldKeepMessage(msg, 0, 10, {})).toBe(false);
+        });
+
         it('should not keep user messages when keepUserMessages is false', () => {
             const msg = createMessage('user');
             const totalMessages = 10;
@@ -147,4 +242,70 @@ describe('utils', () => {
             ).toBe(false);
         });
     });
+
+    describe('dropReasoningParts', () => {
+        const createAssistant = (id: string, parts: any[]): MastraDBMessage => ({
+            id,
+            role: 'assistant',
+            content: { format: 2, parts },
+            createdAt: new Date(),
+        });
+        const reasoning = { type: 'reasoning', reasoning: 'Thinking', details: [] };
+
+        it('should drop reasoning from earlier turns and keep the current turn', () => {
+            const messages = [
+                { id: 'u1', role: 'user', content: stringToContentV2('Q1'), createdAt: new Date() },
+                createAssistant('a1', [reasoning, { type: 'text', text: 'A1' }]),
+                createAssistant('a2', [{ type: 'step-start' }, reasoning]),
+                { id: 'u2', role: 'user', content: stringToContentV2('Q2'), createdAt: new Date() },
+                createAssistant('a3', [reasoning, { type: 'text', text: 'A3' }]),
+            ] as MastraDBMessage[];
+
+            const result = dropReasoningParts(messages);
+
+            expect(result.map(m => m.id)).toEqual(['u1', 'a1', 'u2', 'a3']);
+            expect(result[1].content.parts).toEqual([{ type: 'text', text: 'A1' }]);
+            expect(result[3]).toBe(messages[4]);
+        });
+    });
+
+    describe('insertReplacement', () => {
+        it('should put the replacement where the first released message was', () => {
+            const messages = ['sys', 'a', 'b', 'c', 'd'].map(id => ({
+                id,
+                role: 'assistant',
+                content: stringToContentV2(id),
+                createdAt: new Date(),
+            })) as MastraDBMessage[];
+            const [sys, a, b, c, d] = messages;
+            const replacement = { ...a, id: 'summary' };
+
+            expect(insertReplacement(messages, [sys, c, d], replacement, a).map(m => m.id)).toEqual(
+                ['sys', 'summary', 'c', 'd']
+            );
+            expect(insertReplacement(messages, [sys, b], replacement, c).map(m => m.id)).toEqual([
+                'sys',
+                'b',
+                'summary',
+            ]);
+        });
+    });
+
+    describe('getModelId', () => {
+        it('should return string model ids as-is', () => {
+            expect(getModelId('openai/gpt-4o')).toBe('openai/gpt-4o');
+        });
+
+        it('should build an id from model objects', () => {
+            expect(getModelId({ provider: 'anthropic', modelId: 'claude-sonnet-4-5' })).toBe(
+                'anthropic/claude-sonnet-4-5'
+            );
+            expect(getModelId({ modelId: 'openai/gpt-4o' })).toBe('openai/gpt-4o');
+        });
+
+        it('should return undefined for anything else', () => {
+            expect(getModelId(undefined)).toBeUndefined();
+            expect(getModelId({})).toBeUndefined();
+        });
+    });
 });
@@ -10,28 +10,129 @@ export function stringToContentV2(text: string): MastraMessageContentV2 {
     };
 }
 
+type MessagePart = MastraMessageContentV2['parts'][number];
+
+/**
+ * A tool call or result part
+ */
+export type ToolInvocationPart = Extract<MessagePart, { type: 'tool-invocation' }>;
+
+/**
+ * Fixed token cost of an image, instead of its base64 length
+ */
+export const DEFAULT_IMAGE_TOKENS = 1000;
+
+/**
+ * Image parts: files with an image/* mime type and legacy `image` parts
+ */
+export function isImagePart(part: { type: string }): boolean {
+    return (
+        part.type === 'image' ||
+        (part.type === 'file' &&
+            String((part as { mimeType?: unknown }).mimeType).startsWith('image/'))
+    );
+}
+
+/**
+ * Messages produced by tools - the 'tool' role or any tool invocation part
+ */
+export function isToolMessage(msg: MastraDBMessage): boolean {
+    return (
+        (msg.role as string) === 'tool' ||
+        (Array.isArray(msg.content.parts) &&
+            msg.content.parts.some(part => part.type === 'tool-invocation'))
+    );
+}
+
+/**
+ * Options for text extraction
+ */
+export interface MessageTextOptions {
+    /**
+     * Include reasoning parts (default: true)
+     */
+    includeReasoning?: boolean;
+}
+
+/**
+ * Serialize a tool payload (args or result) - strings as-is, anything else as JSON
+ */
+export function serializePayload(payload: unknown): string {
+    return typeof payload === 'string' ? payload : (JSON.stringify(payload) ?? '');
+}
+
+/**
+ * Text representation of one message part
+ * Binary data is described rather than inlined
+ */
+export function getPartText(part: MessagePart, options: MessageTextOptions = {}): string {
+    switch (part.type) {
+        case 'text':
+            return part.text;
+        case 'reasoning':
+            return options.includeReasoning === false ? '' : part.reasoning;
+        case 'tool-invocation': {
+            const { toolName, args, state, result } = part.toolInvocation;
+            const call = `[tool ${toolName}(${serializePayload(args)})]`;
+            return state === 'result' ? `${call} ${serializePayload(result)}` : call;
+        }
+        case 'file':
+            return isImagePart(part) ? `[image: ${part.mimeType}]` : `[file: ${part.mimeType}]`;
+        case 'source':
+            return `[source: ${part.source.title ?? part.source.url}](${part.source.url})`;
+        case 'source-document':
+            return `[source: ${part.title}]`;
+        case 'error':
+            return `[error: ${part.error.message}]`;
+        case 'step-start':
+            return '';
+    }
+
+    if (isImagePart(part)) {
+        return '[image]';
+    }
+    // Custom data-* parts and anything newer
+    return serializePayload('data' in part ? part.data : part);
+}
+
 /**
  * Extract text content from MastraDBMessage
  */
-export function getMessageText(msg: MastraDBMessage): string {
+export function getMessageText(msg: MastraDBMessage, options: MessageTextOptions = {}): string {
     if (msg.content.format === 2 && msg.content.parts) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-return
-        return msg.content.parts
-            .map((part: any) => (part.type === 'text' ? part.text : JSON.stringify(part)))
-            .join('');
+        return msg.content.parts.map(part => getPartText(part, options)).join('');
     }
     return JSON.stringify(msg.content);
 }
 
+/**
+ * Token estimate for a piece of text (rough approximation: 1 token ≈ 4 characters)
+ * The same approximation estimateTokensDefault applies per part
+ */
+export function estimateTextTokens(text: string): number {
+    return text.length / 4;
+}
+
 /**
  * Default token estimation (rough approximation: 1 token ≈ 4 characters)
+ * Images count as DEFAULT_IMAGE_TOKENS and other files by their data length
  * For production, use tiktoken via tokenCounter config option
  */
 export function estimateTokensDefault(messages: MastraDBMessage[]): number {
-    const totalChars = messages.reduce((sum, msg) => {
-        return sum + getMessageText(msg).length;
+    return messages.reduce((sum, msg) => {
+        if (msg.content.format !== 2 || !Array.isArray(msg.content.parts)) {
+            return sum + estimateTextTokens(getMessageText(msg));
+        }
+        return msg.content.parts.reduce((partSum, part) => {
+            if (isImagePart(part)) {
+                return partSum + DEFAULT_IMAGE_TOKENS;
+            }
+            if (part.type === 'file') {
+                return partSum + estimateTextTokens(part.data);
+            }
+            return partSum + estimateTextTokens(getPartText(part));
+        }, sum);
     }, 0);
-    return totalChars / 4;
 }
 
 /**
@@ -45,11 +146,73 @@ export function shouldKeepMessage(
         keepRecent?: number;
         keepUserMessages?: boolean;
         keepSystemMessages?: boolean;
+        keepToolMessages?: boolean;
     }
 ): boolean {
     const isRecent = idx >= totalMessages - (config.keepRecent || 5);
     const isUser = config.keepUserMessages === true && msg.role === 'user';
     const isSystem = config.keepSystemMessages === true && msg.role === 'system';
+    const isTool = config.keepToolMessages === true && isToolMessage(msg);
+
+    return isRecent || isUser || isSystem || isTool;
+}
+
+/**
+ * Remove reasoning parts from earlier turns - everything before the last user message
+ * Reasoning in the current turn is kept, since providers may require it alongside tool calls
+ * Messages left with nothing but step markers are dropped
+ */
+export function dropReasoningParts(messages: MastraDBMessage[]): MastraDBMessage[] {
+    const lastUser = messages.findLastIndex(msg => msg.role === 'user');
+
+    return messages.flatMap((msg, idx) => {
+        if (idx >= lastUser || !msg.content.parts.some(part => part.type === 'reasoning')) {
+            return [msg];
+        }
+        const parts = msg.content.parts.filter(part => part.type !== 'reasoning');
+        if (parts.every(part => part.type === 'step-start')) {
+            return [];
+        }
+        return [{ ...msg, content: { ...msg.content, parts } }];
+    });
+}
+
+/**
+ * Put a message that stands in for released ones (a summary, an offload reference) at the
+ * position of the first released message in `messages`, so kept messages that came before
+ * it (e.g. the system prompt) stay in front
+ */
+export function insertReplacement(
+    messages: MastraDBMessage[],
+    kept: MastraDBMessage[],
+    replacement: MastraDBMessage,
+    firstReleased: MastraDBMessage
+): MastraDBMessage[] {
+    const positions = new Map(messages.map((msg, index) => [msg.id, index]));
+    const at = positions.get(firstReleased.id) ?? 0;
+    return [
+        ...kept.filter(msg => (positions.get(msg.id) ?? Infinity) < at),
+        replacement,
+        ...kept.filter(msg => (positions.get(msg.id) ?? Infinity) >= at),
+    ];
+}
 
-    return isRecent || isUser || isSystem;
+/**
+ * Resolve a model id string from the `model` passed to processInputStep
+ * Accepts router ids ('openai/gpt-4o') or model objects with `modelId`/`provider`
+ */
+export function getModelId(model: unknown): string | undefined {
+    if (typeof model === 'string') {
+        return model;
+    }
+    if (model && typeof model === 'object' && 'modelId' in model) {
+        const { modelId, provider } = model as { modelId?: unknown; provider?: unknown };
+        if (typeof modelId !== 'string') {
+            return undefined;
+        }
+        return typeof provider === 'string' && !modelId.includes('/')
+            ? `${provider}/${modelId}`
+            : modelId;
+    }
+    return undefined;
 }
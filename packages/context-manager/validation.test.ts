@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'bun:test';
-import { validateMessages, getValidationError } from './validation.js';
+import {
+    validateMessages,
+    getValidationError,
+    getValidationIssues,
+    checkMessageIntegrity,
+    repairMessageIntegrity,
+    ORPHANED_TOOL_RESULT_STUB,
+} from './validation.js';
 import { stringToContentV2 } from './utils.js';
 import type { MastraDBMessage } from '@mastra/core/agent/message-list';
 
@@ -105,4 +112,235 @@ describe('validation', () => {
             expect(error).toContain('invalid role');
         });
     });
+
+    describe('getValidationIssues', () => {
+        const withParts = (parts: unknown[]) => [
+            { ...createValidMessage(), content: { format: 2, parts } },
+        ];
+
+        it('should return no issues for valid messages', () => {
+            expect(getValidationIssues([createValidMessage()])).toEqual([]);
+        });
+
+        it('should accept every built-in part type and custom data parts', () => {
+            const messages = withParts([
+                { type: 'step-start' },
+                { type: 'text', text: 'Hello' },
+                { type: 'reasoning', reasoning: 'Thinking', details: [] },
+                { type: 'file', mimeType: 'image/png', data: 'aGk=' },
+                { type: 'source', source: { sourceType: 'url', id: 's1', url: 'https://a.dev' } },
+                { type: 'data-progress', data: { percent: 50 } },
+            ]);
+            expect(getValidationIssues(messages)).toEqual([]);
+        });
+
+        it('should accept tool role messages', () => {
+            expect(getValidationIssues([{ ...createValidMessage(), role: 'tool' }])).toEqual([]);
+        });
+
+        it('should report unknown part types at the part', () => {
+            expect(
+                getValidationIssues(withParts([{ type: 'text', text: 'ok' }, { type: 'image' }]))
+            ).toEqual([
+                {
+                    path: [0, 'content', 'parts', 1, 'type'],
+                    code: 'invalid_union',
+                    message: 'unknown part type "image"',
+                },
+            ]);
+        });
+
+        it('should report each malformed field of a tool invocation', () => {
+            const issues = getValidationIssues(
+                withParts([
+                    {
+                        type: 'tool-invocation',
+                        toolInvocation: { state: 'call', toolName: '', args: {} },
+                    },
+                    {
+                        type: 'tool-invocation',
+                        toolInvocation: { state: 'done', toolCallId: 'c', toolName: 's' },
+                    },
+                ])
+            );
+            expect(issues.map(i => [i.path.slice(3).join('.'), i.message])).toEqual([
+                ['0.toolInvocation.toolCallId', 'tool invocation is missing its toolCallId'],
+                ['0.toolInvocation.toolName', 'tool invocation has an empty toolName'],
+                ['1.toolInvocation.state', 'unknown tool invocation state "done"'],
+            ]);
+        });
+
+        it('should accept tool results Mastra produces without a value or args', () => {
+            const result = (toolInvocation: Record<string, unknown>) =>
+                getValidationIssues(
+                    withParts([
+                        {
+                            type: 'tool-invocation',
+                            toolInvocation: {
+                                state: 'result',
+                                toolCallId: 'c',
+                                toolName: 's',
+                                ...toolInvocation,
+                            },
+                        },
+                    ])
+                );
+
+            // Void tool
+            expect(result({ args: {}, result: undefined })).toEqual([]);
+            // Failed call
+            expect(result({ args: {}, isError: true, errorText: 'boom' })).toEqual([]);
+            // No args recorded
+            expect(result({ result: 'ok' })).toEqual([]);
+        });
+
+        it('should collect issues across messages', () => {
+            const missingId = { ...createValidMessage(), id: '' };
+            const badDate = { ...createValidMessage(), createdAt: '2025-01-01' };
+            expect(getValidationIssues([missingId, badDate]).map(i => i.path)).toEqual([
+                [0, 'id'],
+                [1, 'createdAt'],
+            ]);
+        });
+
+        it('should prefix the first issue with its path in getValidationError', () => {
+            expect(getValidationError(withParts([{ type: 'text' }]))).toBe(
+                'messages[0].content.parts[0].text: text part is missing its text'
+            );
+        });
+    });
+
+    const at = (seconds: number) => new Date(Date.UTC(2025, 0, 1, 0, 0, seconds));
+    const createMessage = (
+        id: string,
+        role: 'user' | 'assistant' | 'system',
+        seconds: number,
+        text = id
+    ): MastraDBMessage => ({
+        id,
+        role,
+        content: stringToContentV2(text),
+        createdAt: at(seconds),
+    });
+    const createToolMessage = (
+        id: string,
+        seconds: number,
+        state: 'call' | 'result',
+        toolCallId = 'call-1'
+    ): MastraDBMessage => ({
+        id,
+        role: 'assistant',
+        content: {
+            format: 2,
+            parts: [
+                {
+                    type: 'tool-invocation',
+                    toolInvocation: {
+                        state,
+                        toolCallId,
+                        toolName: 'search',
+                        args: { query: 'docs' },
+                        ...(state === 'result' && { result: 'found' }),
+                    },
+                } as MastraDBMessage['content']['parts'][number],
+            ],
+        },
+        createdAt: at(seconds),
+    });
+
+    describe('checkMessageIntegrity', () => {
+        it('should accept a well-formed conversation', () => {
+            expect(
+                checkMessageIntegrity([
+                    createMessage('sys', 'system', 0),
+                    createMessage('1', 'user', 1),
+                    createToolMessage('2', 2, 'call'),
+                    createToolMessage('3', 3, 'result'),
+                    createMessage('4', 'assistant', 4),
+                ])
+            ).toEqual([]);
+        });
+
+        it('should report tool calls without results and results before their calls', () => {
+            const issues = checkMessageIntegrity([
+                createMessage('1', 'user', 1),
+                createToolMessage('2', 2, 'result', 'call-2'),
+                createToolMessage('3', 3, 'call', 'call-2'),
+                createToolMessage('4', 4, 'call', 'call-4'),
+            ]);
+            expect(issues.map(i => [i.type, i.messageId, i.toolCallId])).toEqual([
+                ['orphaned-tool-result', '2', 'call-2'],
+                ['orphaned-tool-call', '3', 'call-2'],
+                ['orphaned-tool-call', '4', 'call-4'],
+            ]);
+        });
+
+        it('should report duplicate ids, out-of-order timestamps and a leading assistant turn', () => {
+            const issues = checkMessageIntegrity([
+                createMessage('sys', 'system', 0),
+                createMessage('1', 'assistant', 5),
+                createMessage('2', 'user', 3),
+                createMessage('2', 'user', 6),
+            ]);
+            expect(issues.map(i => [i.type, i.messageId])).toEqual([
+                ['out-of-order', '2'],
+                ['duplicate-id', '2'],
+                ['leading-assistant', '1'],
+            ]);
+        });
+    });
+
+    describe('repairMessageIntegrity', () => {
+        it('should stub orphaned tool calls by default', () => {
+            const { messages, fixed, remaining } = repairMessageIntegrity([
+                createMessage('1', 'user', 1),
+                createToolMessage('2', 2, 'call'),
+            ]);
+            const part = messages[1].content.parts[0] as any;
+
+            expect(part.toolInvocation).toMatchObject({
+                state: 'result',
+                toolCallId: 'call-1',
+                result: ORPHANED_TOOL_RESULT_STUB,
+            });
+            expect(fixed.map(i => i.type)).toEqual(['orphaned-tool-call']);
+            expect(remaining).toEqual([]);
+        });
+
+        it('should drop orphaned parts and messages left empty', () => {
+            const { messages, fixed } = repairMessageIntegrity(
+                [
+                    createMessage('1', 'user', 1),
+                    createToolMessage('2', 2, 'result', 'call-2'),
+                    createToolMessage('3', 3, 'call', 'call-2'),
+                    createMessage('4', 'assistant', 4),
+                ],
+                { orphanedToolCalls: 'drop' }
+            );
+            expect(messages.map(m => m.id)).toEqual(['1', '4']);
+            expect(fixed.map(i => i.type)).toEqual(['orphaned-tool-result', 'orphaned-tool-call']);
+        });
+
+        it('should drop duplicate ids and open with a user turn', () => {
+            const original = [createMessage('1', 'assistant', 1), createMessage('1', 'user', 2)];
+            const { messages, fixed, remaining } = repairMessageIntegrity(original);
+
+            expect(messages.map(m => [m.id, m.role])).toEqual([
+                ['1-context-start', 'user'],
+                ['1', 'assistant'],
+            ]);
+            expect(fixed.map(i => i.type)).toEqual(['duplicate-id', 'leading-assistant']);
+            expect(remaining).toEqual([]);
+            expect(original).toHaveLength(2); // Input is not mutated
+        });
+
+        it('should leave out-of-order timestamps in remaining', () => {
+            const { fixed, remaining } = repairMessageIntegrity([
+                createMessage('1', 'user', 5),
+                createMessage('2', 'assistant', 1),
+            ]);
+            expect(fixed).toEqual([]);
+            expect(remaining.map(i => i.type)).toEqual(['out-of-order']);
+        });
+    });
 });
@@ -1,94 +1,288 @@
 import type { MastraDBMessage } from '@mastra/core/agent/message-list';
+import type { z } from 'zod';
+import { handlerResultSchema } from './schemas.js';
+import type { ToolInvocationPart } from './utils.js';
+import { stringToContentV2 } from './utils.js';
 
 /**
- * Validates that a value is a valid MastraDBMessage array
+ * One problem in a handler result, located by its path from the returned array
+ * e.g. path [0, 'content', 'parts', 2, 'type'] for an unknown part type in the first message
  */
-export function validateMessages(messages: unknown): messages is MastraDBMessage[] {
-    if (!Array.isArray(messages)) {
-        return false;
-    }
-
-    if (messages.length === 0) {
-        return false; // Empty array is invalid - should return undefined to skip
-    }
+export interface ValidationIssue {
+    path: PropertyKey[];
+    code: z.core.$ZodIssueCode;
+    message: string;
+}
 
-    return messages.every(msg => {
-        if (!msg || typeof msg !== 'object') {
-            return false;
-        }
+/**
+ * Validate a handler result against handlerResultSchema and list every problem found
+ */
+export function getValidationIssues(messages: unknown): ValidationIssue[] {
+    const result = handlerResultSchema.safeParse(messages);
+    return (result.error?.issues ?? []).map(({ path, code, message }) => ({
+        path,
+        code,
+        message,
+    }));
+}
 
-        // Required fields
-        if (typeof msg.id !== 'string' || !msg.id) {
-            return false;
-        }
+/**
+ * Format an issue as e.g. `messages[0].content.parts[2].type: unknown part type "foo"`
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+    if (issue.path.length === 0) {
+        return issue.message;
+    }
+    const path = issue.path.reduce<string>(
+        (formatted, key) =>
+            typeof key === 'number' ? `${formatted}[${key}]` : `${formatted}.${String(key)}`,
+        'messages'
+    );
+    return `${path}: ${issue.message}`;
+}
 
-        if (!['user', 'assistant', 'system'].includes(msg.role)) {
-            return false;
-        }
+/**
+ * Validates that a value is a valid MastraDBMessage array
+ */
+export function validateMessages(messages: unknown): messages is MastraDBMessage[] {
+    return handlerResultSchema.safeParse(messages).success;
+}
 
-        if (!msg.content || typeof msg.content !== 'object') {
-            return false;
-        }
+/**
+ * Get validation error message for debugging - the first issue, prefixed with its path
+ */
+export function getValidationError(messages: unknown): string | null {
+    const [issue] = getValidationIssues(messages);
+    return issue ? formatValidationIssue(issue) : null;
+}
 
-        // Validate content format
-        if (msg.content.format !== 2) {
-            return false;
-        }
+/**
+ * Structural problems that providers reject or that confuse the model
+ */
+export type IntegrityIssueType =
+    | 'orphaned-tool-call'
+    | 'orphaned-tool-result'
+    | 'duplicate-id'
+    | 'out-of-order'
+    | 'leading-assistant';
 
-        if (!Array.isArray(msg.content.parts)) {
-            return false;
-        }
+/**
+ * One structural problem in a message list
+ */
+export interface IntegrityIssue {
+    type: IntegrityIssueType;
+    messageId: string;
+    toolCallId?: string;
+    message: string;
+}
 
-        if (!(msg.createdAt instanceof Date)) {
-            return false;
-        }
+/**
+ * Options for repairMessageIntegrity
+ */
+export interface IntegrityRepairOptions {
+    /**
+     * What to do with a tool call that has no result (default: 'stub')
+     * stub: mark it as a result with a placeholder; drop: remove the part
+     */
+    orphanedToolCalls?: 'drop' | 'stub';
+}
 
-        return true;
-    });
+/**
+ * Messages after repair, with what was fixed and what could not be
+ */
+export interface IntegrityRepairResult {
+    messages: MastraDBMessage[];
+    fixed: IntegrityIssue[];
+    remaining: IntegrityIssue[];
 }
 
 /**
- * Get validation error message for debugging
+ * Placeholder result for tool calls whose result is no longer in context
  */
-export function getValidationError(messages: unknown): string | null {
-    if (!Array.isArray(messages)) {
-        return 'Handler returned non-array value';
-    }
+export const ORPHANED_TOOL_RESULT_STUB = '[Tool result unavailable - removed from context]';
 
-    if (messages.length === 0) {
-        return 'Handler returned empty array (should return undefined to skip)';
-    }
+const isToolInvocation = (part: { type: string }): part is ToolInvocationPart =>
+    part.type === 'tool-invocation';
 
-    for (let i = 0; i < messages.length; i++) {
-        const msg = messages[i];
-        if (!msg || typeof msg !== 'object') {
-            return `Message ${i} is not an object`;
-        }
+const isPendingCall = (part: ToolInvocationPart) =>
+    part.toolInvocation.state === 'call' || part.toolInvocation.state === 'partial-call';
+
+/**
+ * Check tool call/result pairing, duplicate ids, chronological createdAt and that the
+ * conversation does not open with an assistant turn
+ * A tool call is orphaned when no result for its toolCallId follows it; a result is
+ * orphaned when its call only appears after it
+ */
+export function checkMessageIntegrity(messages: MastraDBMessage[]): IntegrityIssue[] {
+    const issues: IntegrityIssue[] = [];
+    const seenIds = new Set<string>();
+    // First position of each pending call and each result, by toolCallId
+    const calls = new Map<string, number>();
+    const results = new Map<string, number>();
 
-        if (typeof msg.id !== 'string' || !msg.id) {
-            return `Message ${i} missing or invalid id`;
+    messages.forEach((msg, index) => {
+        for (const part of msg.content.parts) {
+            if (!isToolInvocation(part)) {
+                continue;
+            }
+            const { toolCallId } = part.toolInvocation;
+            const positions = isPendingCall(part) ? calls : results;
+            if (!positions.has(toolCallId)) {
+                positions.set(toolCallId, index);
+            }
         }
+    });
 
-        if (!['user', 'assistant', 'system'].includes(msg.role)) {
-            return `Message ${i} has invalid role: ${msg.role}`;
+    messages.forEach((msg, index) => {
+        if (seenIds.has(msg.id)) {
+            issues.push({
+                type: 'duplicate-id',
+                messageId: msg.id,
+                message: `Message ${index} reuses id ${msg.id}`,
+            });
         }
+        seenIds.add(msg.id);
 
-        if (!msg.content || typeof msg.content !== 'object') {
-            return `Message ${i} missing or invalid content`;
+        const previous = messages[index - 1];
+        if (previous && msg.createdAt.getTime() < previous.createdAt.getTime()) {
+            issues.push({
+                type: 'out-of-order',
+                messageId: msg.id,
+                message: `Message ${index} was created before message ${index - 1}`,
+            });
         }
 
-        if (msg.content.format !== 2) {
-            return `Message ${i} content format is not 2`;
+        for (const part of msg.content.parts) {
+            if (!isToolInvocation(part)) {
+                continue;
+            }
+            const { toolCallId, toolName } = part.toolInvocation;
+            const resultAt = results.get(toolCallId);
+            const callAt = calls.get(toolCallId);
+
+            if (isPendingCall(part) && (resultAt === undefined || resultAt < index)) {
+                issues.push({
+                    type: 'orphaned-tool-call',
+                    messageId: msg.id,
+                    toolCallId,
+                    message: `Tool call ${toolCallId} (${toolName}) in message ${index} has no result`,
+                });
+            } else if (!isPendingCall(part) && callAt !== undefined && callAt > index) {
+                issues.push({
+                    type: 'orphaned-tool-result',
+                    messageId: msg.id,
+                    toolCallId,
+                    message: `Tool result ${toolCallId} in message ${index} precedes its call`,
+                });
+            }
         }
+    });
+
+    const first = messages.find(msg => msg.role !== 'system');
+    if (first?.role === 'assistant') {
+        issues.push({
+            type: 'leading-assistant',
+            messageId: first.id,
+            message: `Conversation starts with assistant message ${first.id}`,
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Repair what checkMessageIntegrity reports, where it can be done without guessing
+ * - duplicate ids: later duplicates are dropped
+ * - orphaned results: the result part is dropped (its call is then handled as orphaned)
+ * - orphaned calls: stubbed or dropped (see IntegrityRepairOptions)
+ * - leading assistant turn: a placeholder user message is inserted before it
+ * Out-of-order timestamps are reported in `remaining` - reordering could change meaning
+ */
+export function repairMessageIntegrity(
+    messages: MastraDBMessage[],
+    options: IntegrityRepairOptions = {}
+): IntegrityRepairResult {
+    const { orphanedToolCalls = 'stub' } = options;
+    const fixed: IntegrityIssue[] = [];
+
+    const updateParts = (
+        list: MastraDBMessage[],
+        issues: IntegrityIssue[],
+        update: (part: ToolInvocationPart) => ToolInvocationPart | undefined
+    ) =>
+        list.flatMap(msg => {
+            const toolCallIds = new Set(
+                issues.filter(issue => issue.messageId === msg.id).map(issue => issue.toolCallId)
+            );
+            if (toolCallIds.size === 0) {
+                return [msg];
+            }
+            const parts = msg.content.parts.flatMap(part =>
+                isToolInvocation(part) && toolCallIds.has(part.toolInvocation.toolCallId)
+                    ? (update(part) ?? [])
+                    : [part]
+            );
+            // Drop messages left with nothing in them
+            return parts.length === 0 ? [] : [{ ...msg, content: { ...msg.content, parts } }];
+        });
 
-        if (!Array.isArray(msg.content.parts)) {
-            return `Message ${i} content.parts is not an array`;
+    // Duplicate ids - keep the first occurrence
+    const seenIds = new Set<string>();
+    let repaired = messages.filter(msg => {
+        if (seenIds.has(msg.id)) {
+            return false;
         }
+        seenIds.add(msg.id);
+        return true;
+    });
+    fixed.push(...checkMessageIntegrity(messages).filter(issue => issue.type === 'duplicate-id'));
+
+    // Orphaned results first - dropping one can orphan its call
+    const orphanedResults = checkMessageIntegrity(repaired).filter(
+        issue => issue.type === 'orphaned-tool-result'
+    );
+    repaired = updateParts(repaired, orphanedResults, part =>
+        isPendingCall(part) ? part : undefined
+    );
+    fixed.push(...orphanedResults);
 
-        if (!(msg.createdAt instanceof Date)) {
-            return `Message ${i} createdAt is not a Date`;
+    const orphanedCalls = checkMessageIntegrity(repaired).filter(
+        issue => issue.type === 'orphaned-tool-call'
+    );
+    repaired = updateParts(repaired, orphanedCalls, part => {
+        if (!isPendingCall(part)) {
+            return part;
         }
+        return orphanedToolCalls === 'drop'
+            ? undefined
+            : {
+                  ...part,
+                  toolInvocation: {
+                      ...part.toolInvocation,
+                      state: 'result',
+                      result: ORPHANED_TOOL_RESULT_STUB,
+                  },
+              };
+    });
+    fixed.push(...orphanedCalls);
+
+    const leading = checkMessageIntegrity(repaired).find(
+        issue => issue.type === 'leading-assistant'
+    );
+    if (leading) {
+        const index = repaired.findIndex(msg => msg.id === leading.messageId);
+        repaired = [
+            ...repaired.slice(0, index),
+            {
+                id: `${leading.messageId}-context-start`,
+                role: 'user',
+                content: stringToContentV2('[Earlier conversation omitted]'),
+                createdAt: repaired[index].createdAt,
+            },
+            ...repaired.slice(index),
+        ];
+        fixed.push(leading);
     }
 
-    return null;
+    return { messages: repaired, fixed, remaining: checkMessageIntegrity(repaired) };
 }
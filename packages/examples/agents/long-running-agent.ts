@@ -1,3 +1,4 @@
+import { createClient } from '@libsql/client';
 import { Agent } from '@mastra/core/agent';
 import { Memory } from '@mastra/memory';
 import { LibSQLStore } from '@mastra/libsql';
@@ -9,7 +10,15 @@ import {
     listFilesTool,
     executeBashTool,
 } from '../tools/bash-tools.js';
-import { createContextManager, stringToContentV2 } from '@contextor-ai/core';
+import {
+    createContextManager,
+    createLibSQLOffloadStore,
+    createRecallTool,
+    createStoreOffloader,
+    createTelemetryHooks,
+    createToolOutputCompactor,
+    stringToContentV2,
+} from '@contextor-ai/core';
 import type { MastraDBMessage } from '@mastra/core/agent/message-list';
 
 // Helper to count tokens (rough estimate: 1 token ≈ 4 chars)
@@ -23,6 +32,14 @@ function countTokens(messages: MastraDBMessage[]): number {
     );
 }
 
+// One database for the agent's memory and for everything moved out of its context, so
+// offloaded messages survive restarts alongside the threads they came from
+const db = createClient({ url: 'file:./long-running-agent.db' });
+
+// Compacted tool outputs and offloaded messages, queryable by thread and step
+const artifactStore = createLibSQLOffloadStore({ client: db });
+const storeOffloader = createStoreOffloader({ store: artifactStore });
+
 /**
  * Long-running agent with context management processors
  *
@@ -42,6 +59,7 @@ export const longRunningAgent = new Agent({
       You have access to tools for:
       - File operations (write, read, list)
       - Bash command execution
+      - Recalling content that was moved out of context (look for "ref: artifact_..." markers)
 
       When working on complex tasks:
       - Break them down into smaller steps
@@ -55,11 +73,12 @@ export const longRunningAgent = new Agent({
         readFile: readFileTool,
         listFiles: listFilesTool,
         executeBash: executeBashTool,
+        recall: createRecallTool(artifactStore),
     },
     memory: new Memory({
         storage: new LibSQLStore({
             id: 'long-running-agent-memory',
-            url: ':memory:', // In-memory database for examples
+            client: db, // Shared with the offload store
         }),
     }),
 
@@ -96,37 +115,8 @@ export const longRunningAgent = new Agent({
                     }
                     return undefined;
                 },
-                // COMPACT: Replace large tool outputs with references
-                compact: async ({ messages, stepNumber }) => {
-                    const tokensBefore = countTokens(messages);
-                    const compacted = messages.map(msg => {
-                        // If message has large tool output, replace with reference
-                        if (
-                            msg.role === 'assistant' &&
-                            typeof msg.content !== 'string' &&
-                            msg.content.format === 2 &&
-                            msg.content.parts.some((p: any) => p.type === 'tool_output')
-                        ) {
-                            const originalSize = countTokens([msg]) * 4;
-                            return {
-                                ...msg,
-                                content: stringToContentV2(
-                                    `[Compacted tool output - original was ~${originalSize.toFixed(0)} chars]`
-                                ),
-                            };
-                        }
-                        return msg;
-                    });
-                    const tokensAfter = countTokens(compacted);
-                    if (tokensAfter < tokensBefore) {
-                        const reduction = ((1 - tokensAfter / tokensBefore) * 100).toFixed(1);
-                        console.log(
-                            `\n📦 [COMPACT] Step ${stepNumber}: ${tokensBefore.toFixed(0)} → ${tokensAfter.toFixed(0)} tokens (${reduction}% reduction)`
-                        );
-                        return compacted;
-                    }
-                    return undefined;
-                },
+                // COMPACT: Move large tool outputs into the artifact store, keep references
+                compact: createToolOutputCompactor({ store: artifactStore, maxPartTokens: 500 }),
                 // SUMMARIZE: Condense old messages into a summary
                 summarize: async ({ oldMessages, recentMessages, stepNumber }) => {
                     const tokensBefore = countTokens([...oldMessages, ...recentMessages]);
@@ -146,18 +136,14 @@ export const longRunningAgent = new Agent({
                     );
                     return summarized;
                 },
-                // OFFLOAD: Move old messages to external storage (simulated)
-                offload: async ({ messagesToOffload, messagesToKeep, stepNumber }) => {
+                // OFFLOAD: Save old messages to the offload store (recallable via the recall tool)
+                offload: async args => {
+                    const { messagesToOffload, messagesToKeep, stepNumber } = args;
                     const tokensBefore = countTokens([...messagesToOffload, ...messagesToKeep]);
-                    const offloadRef: MastraDBMessage = {
-                        id: `offload-ref-${stepNumber}`,
-                        role: 'system',
-                        content: stringToContentV2(
-                            `[Offloaded ${messagesToOffload.length} messages to external storage - original was ~${countTokens(messagesToOffload) * 4} chars]`
-                        ),
-                        createdAt: new Date(),
-                    };
-                    const offloaded = [...messagesToKeep, offloadRef];
+                    const offloaded = await storeOffloader(args);
+                    if (!offloaded) {
+                        return undefined;
+                    }
                     const tokensAfter = countTokens(offloaded);
                     const reduction = ((1 - tokensAfter / tokensBefore) * 100).toFixed(1);
                     console.log(
@@ -167,6 +153,8 @@ export const longRunningAgent = new Agent({
                 },
             },
             hooks: {
+                // Spans and metrics via the global OpenTelemetry providers
+                ...createTelemetryHooks(),
                 afterModify: async (args, messages, strategy) => {
                     const estimatedTokens = countTokens(messages);
                     console.log(